@@ -0,0 +1,166 @@
+import type { TokenResult } from './fanout';
+import type { RedisClient } from './redis';
+import { pauseLimiter } from './throttle';
+import { log } from './logger';
+
+/**
+ * A limiter ceiling shared by every worker and adjusted AIMD-style from FCM's answers: cut
+ * multiplicatively on quota errors, raised back linearly over time, paused on `Retry-After`.
+ */
+export interface AdaptiveLimit {
+    /** Key holding the `Retry-After` pause, for `DurationLimiterBuilder.pausedBy()`. */
+    readonly pauseKey: string;
+    /** Current ceiling in permits per window: `max` until a quota error cuts it. */
+    ceiling(): Promise<number>;
+    /**
+     * Feed back a failed send: a quota error cuts the ceiling and a `Retry-After` pauses the limiter.
+     */
+    feedback(result: Pick<TokenResult, 'outcome' | 'retryAfter'>): Promise<void>;
+}
+
+export interface AdaptiveLimitOptions {
+    /** Ceiling while FCM keeps up, e.g. MAX_BATCHES_PER_WINDOW. */
+    max: number;
+    /** Ceiling a cut never goes below. */
+    min: number;
+    /** Window of the limiters the ceiling applies to, in seconds. */
+    windowSeconds: number;
+    /** Permits given back per window after a cut. */
+    recoveryPerWindow: number;
+    /** Ceiling multiplier on a quota error (default 0.5). */
+    decreaseFactor?: number;
+    /** Longest pause a `Retry-After` can set, in seconds. */
+    maxPauseSeconds?: number;
+    now?: () => number;
+}
+
+/**
+ * Stored state of a cut ceiling; the key is gone once it fully recovered.
+ */
+export interface AdaptiveState {
+    /** Ceiling right after the last cut. */
+    base: number;
+    /** Time of the last cut, epoch seconds. */
+    at: number;
+}
+
+export const ADAPTIVE_CUT_LUA = `
+-- KEYS[1]  : adaptive ceiling (hash of base and at)
+-- ARGV[1]  : nowSeconds
+-- ARGV[2]  : max (ceiling when not cut)
+-- ARGV[3]  : min (lowest ceiling)
+-- ARGV[4]  : recovery (permits given back per second since the last cut)
+-- ARGV[5]  : factor (ceiling multiplier)
+-- ARGV[6]  : cooldown (seconds after a cut during which quota errors don't cut again)
+
+local now      = tonumber(ARGV[1])
+local max      = tonumber(ARGV[2])
+local min      = tonumber(ARGV[3])
+local recovery = tonumber(ARGV[4])
+local factor   = tonumber(ARGV[5])
+local cooldown = tonumber(ARGV[6])
+
+local state   = redis.call('HMGET', KEYS[1], 'base', 'at')
+local base    = tonumber(state[1])
+local at      = tonumber(state[2])
+local current = max
+
+if base and at then
+  current = math.min(max, base + recovery * math.max(0, now - at))
+  -- Workers hitting the same quota at once count as one signal
+  if now - at < cooldown then
+    return tostring(current)
+  end
+end
+
+local cut = math.max(min, current * factor)
+redis.call('HSET', KEYS[1], 'base', tostring(cut), 'at', tostring(now))
+-- Expire once fully recovered
+redis.call('EXPIRE', KEYS[1], math.ceil((max - cut) / recovery) + 1)
+
+-- Return: the new ceiling
+return tostring(cut)
+` as const;
+
+const DEFAULT_DECREASE_FACTOR = 0.5;
+const DEFAULT_MAX_PAUSE_SECONDS = 300;
+
+/**
+ * Ceiling at `nowSeconds` given the stored state of the last cut, before rounding down.
+ */
+export function ceilingAt(
+    state: AdaptiveState | undefined,
+    nowSeconds: number,
+    {
+        max,
+        windowSeconds,
+        recoveryPerWindow,
+    }: Pick<AdaptiveLimitOptions, 'max' | 'windowSeconds' | 'recoveryPerWindow'>,
+): number {
+    if (!state) {
+        return max;
+    }
+    return Math.min(max, state.base + (recoveryPerWindow / windowSeconds) * Math.max(0, nowSeconds - state.at));
+}
+
+/**
+ * Adaptive ceiling stored under `key`, with its pause under `${key}:paused`.
+ * Quota errors cut at most once per window, however many workers see them.
+ */
+export function redisAdaptiveLimit(redis: RedisClient, key: string, options: AdaptiveLimitOptions): AdaptiveLimit {
+    const {
+        max,
+        min,
+        windowSeconds,
+        recoveryPerWindow,
+        decreaseFactor = DEFAULT_DECREASE_FACTOR,
+        maxPauseSeconds = DEFAULT_MAX_PAUSE_SECONDS,
+        now = Date.now,
+    } = options;
+    if (min < 1 || min > max) {
+        throw new Error(`Invalid adaptive limit range: ${min}-${max}`);
+    }
+    if (recoveryPerWindow <= 0 || decreaseFactor <= 0 || decreaseFactor >= 1) {
+        throw new Error('Adaptive limit needs a positive recovery and a decrease factor between 0 and 1');
+    }
+
+    const pauseKey = `${key}:paused`;
+    const floor = (ceiling: number) => Math.max(min, Math.floor(ceiling));
+
+    const ceiling = async () => {
+        const [base, at] = await redis.hmget(key, 'base', 'at');
+        const state = base === null || at === null ? undefined : { base: Number(base), at: Number(at) };
+        return floor(ceilingAt(state, now() / 1000, options));
+    };
+
+    return {
+        pauseKey,
+        ceiling,
+
+        async feedback({ outcome, retryAfter = 0 }) {
+            if (retryAfter > 0) {
+                const pausedUntil = now() / 1000 + Math.min(retryAfter, maxPauseSeconds);
+                await pauseLimiter(redis, pauseKey, pausedUntil, now());
+                log.warn('FCM sent Retry-After, limiter paused', {
+                    pausedUntil: new Date(pausedUntil * 1000).toISOString(),
+                });
+            }
+            if (outcome !== 'quota-exceeded') {
+                return;
+            }
+
+            const cut = await redis.eval(
+                ADAPTIVE_CUT_LUA,
+                1,
+                key,
+                now() / 1000,
+                max,
+                min,
+                recoveryPerWindow / windowSeconds,
+                decreaseFactor,
+                windowSeconds,
+            );
+            log.warn('FCM quota exceeded, limiter ceiling cut', { ceiling: floor(Number(cut)) });
+        },
+    };
+}
@@ -1,91 +1,684 @@
-import { SQSEvent, SQSRecord, Context } from 'aws-lambda';
-import { throttle } from './throttle';
-import Redis, { RedisOptions } from 'ioredis';
+import { SQSEvent, SQSRecord, SQSBatchResponse, SQSBatchItemFailure, Context, ScheduledEvent } from 'aws-lambda';
+import { createHash } from 'crypto';
+import { CompositeAcquireResult, LimiterAnswer, throttleAll } from './throttle';
+import { FcmClient, FcmError, staticCredentials } from './fcm';
+import { RETRYABLE_OUTCOMES, TokenResult, classifySendError, fanOut } from './fanout';
+import { DeadTokenSink, collectDeadTokens, createDeadTokenSink } from './deadtokens';
+import { SqsQueueClient, awsSqsClient } from './sqs';
+import { RequeueOptions, attemptCount, deadLetter, queueUrlFromArn, receiveCount, requeue } from './requeue';
+import { LimiterFallback, createLimiterFallback, isRedisUnavailable } from './degraded';
+import { Config, loadConfig } from './config';
+import { IdempotencyStatus, IdempotencyStore, idempotencyKey, redisIdempotencyStore } from './idempotency';
+import { RedisClient, createRedis, hashTag } from './redis';
+import { NotificationMessage, parseMessage, sendAtSeconds, toFcmMessage } from './message';
+import { claimDue, deferRecord, schedule, scheduledRecord, unschedule } from './scheduler';
+import { splitByDeliveryWindow } from './quiethours';
+import { AdaptiveLimit, redisAdaptiveLimit } from './adaptive';
+import {
+    ErrorCategory,
+    InfrastructureError,
+    ThrottledError,
+    TransientUpstreamError,
+    classifyError,
+    errorDisposition,
+} from './errors';
+import {
+    DeadLetter,
+    DeadLetterAdmin,
+    DeadLetterCommand,
+    RedriveResult,
+    Rewrite,
+    deadLetterAdmin,
+    runDeadLetterCommand,
+    withoutDeadTokens,
+} from './dlq';
+import { addLogContext, configureLogger, log, withLogContext } from './logger';
+import { Metrics, createMetrics, stdoutMetricsSink } from './metrics';
 
-let client: Redis;
+let config: Config;
+let client: RedisClient;
+let fcm: FcmClient;
+let sqs: SqsQueueClient;
+let deadTokenSink: DeadTokenSink | null | undefined;
+let limiterFallback: LimiterFallback;
+let idempotency: IdempotencyStore;
+let adaptiveLimit: AdaptiveLimit;
+let metrics: Metrics;
 
-const MAX_BATCHES_PER_MINUTE = 1200;
-const WINDOW_SECONDS = 60;
-const FCM_THROTTLE_KEY = 'fcm_throttle_key';
-
-const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+/**
+ * Configuration loaded from the environment on first use; throws a ConfigError listing every invalid variable.
+ */
+export function getConfig() {
+    if (!config) {
+        config = loadConfig(process.env);
+        configureLogger({ level: config.logLevel });
+    }
+    return config;
+}
 
-function getRedis() {
+export function getRedis() {
     if (!client) {
-        const url = process.env.REDIS_URL;
-        if (!url) {
-            throw new Error('REDIS_URL is not set');
-        }
-        const redisUrl = new URL(url);
-        const isTls = redisUrl.protocol === 'rediss:';
-        const options: RedisOptions = {
-            host: redisUrl.hostname,
-            port: Number(redisUrl.port) || 6379,
-            password: redisUrl.password || undefined,
-            db: redisUrl.pathname ? Number(redisUrl.pathname.slice(1)) : 0,
-            maxRetriesPerRequest: 3,
-            retryStrategy(times) {
-                if (times >= 3) {
-                    return null;
-                }
-                return times * 200;
-            },
-            enableOfflineQueue: false,
-            lazyConnect: true,
-            ...(isTls && {
-                tls: {
-                    servername: redisUrl.hostname,
-                },
-            }),
-        };
-        client = new Redis(options);
+        const { redis, redisMaxRetries, redisRetryDelayMs, redisConnectTimeoutMs } = getConfig();
+        client = createRedis(redis, {
+            maxRetries: redisMaxRetries,
+            retryDelayMs: redisRetryDelayMs,
+            connectTimeoutMs: redisConnectTimeoutMs,
+        });
     }
     return client;
 }
 
-export const lambdaHandler = async (event: SQSEvent, context: Context): Promise<void> => {
-    console.log('Received event:', JSON.stringify(event));
+function getFcm() {
+    if (!fcm) {
+        const { fcmServiceAccount, fcmBaseUrl, fcmProjectId } = getConfig();
+        if (!fcmServiceAccount) {
+            throw new InfrastructureError('FCM_SERVICE_ACCOUNT is not set');
+        }
+        fcm = new FcmClient({
+            credentials: staticCredentials(fcmServiceAccount),
+            baseUrl: fcmBaseUrl,
+            projectId: fcmProjectId,
+        });
+    }
+    return fcm;
+}
 
-    const redis = getRedis();
+function getSqs() {
+    if (!sqs) {
+        sqs = awsSqsClient();
+    }
+    return sqs;
+}
 
-    if (!redis.status || redis.status === 'end' || redis.status === 'wait') {
-        console.log('Redis status:', redis.status, 'connecting...');
-        await redis.connect();
+/**
+ * EMF metrics dimensioned by `Stage`, written when each invocation ends.
+ */
+function getMetrics() {
+    if (!metrics) {
+        const { metricsNamespace, stage } = getConfig();
+        metrics = createMetrics(stdoutMetricsSink, { namespace: metricsNamespace, dimensions: { Stage: stage } });
+    }
+    return metrics;
+}
+
+function getDeadTokenSink(redis: RedisClient) {
+    if (deadTokenSink === undefined) {
+        deadTokenSink = createDeadTokenSink(getConfig().deadTokenSink, redis, getSqs) ?? null;
+    }
+    return deadTokenSink;
+}
+
+function getLimiterFallback() {
+    if (!limiterFallback) {
+        const { limiterFallback: policy, maxPerWindow, maxConcurrency, windowSeconds } = getConfig();
+        // Each Lambda's share of the global cap while Redis is down
+        limiterFallback = createLimiterFallback(policy, {
+            localMaxLocks: maxPerWindow / maxConcurrency,
+            windowSeconds,
+        });
     }
+    return limiterFallback;
+}
+
+/**
+ * `requeue()` with the configured jitter and cap. Resolves false when the record was not requeued.
+ */
+async function tryRequeue(record: SQSRecord, options: Pick<RequeueOptions, 'decaysAt' | 'body' | 'attempts'>) {
+    try {
+        return await requeue(getSqs(), record, {
+            ...options,
+            jitterSeconds: getConfig().requeueJitterSeconds,
+            maxRequeues: getConfig().maxRequeues,
+        });
+    } catch (err) {
+        log.error('Failed to requeue message', { err });
+        return false;
+    }
+}
+
+/**
+ * Move what is left of a partly delivered record to DEAD_LETTER_QUEUE_ARN, since failing the record
+ * would redeliver (and a redrive resend) its full token list to the devices it reached. Resolves false
+ * when there is no dead-letter queue or the send failed.
+ */
+async function deadLetterRemainder(
+    record: SQSRecord,
+    body: string,
+    failure: { category: ErrorCategory; reason: string },
+): Promise<boolean> {
+    const { deadLetterQueueArn } = getConfig();
+    if (!deadLetterQueueArn) {
+        return false;
+    }
+    try {
+        await deadLetter(getSqs(), { ...record, body }, deadLetterQueueArn, failure);
+        return true;
+    } catch (err) {
+        log.error('Failed to dead-letter partly delivered message', { category: failure.category, err });
+        return false;
+    }
+}
 
-    for (const record of event.Records as SQSRecord[]) {
-        console.log(
-            `Processing message. Request ID: ${context.awsRequestId}, Receive Count: ${Number(
-                record.attributes?.ApproximateReceiveCount ?? '1',
-            )}`,
-        );
+/**
+ * Re-send a throttled record with a delay instead of failing it, so it does not count
+ * towards the DLQ `maxReceiveCount`. Falls back to a regular failure when that is not possible,
+ * or to dead-lettering the remaining `body` when `partly` delivered.
+ */
+async function requeueThrottled(record: SQSRecord, decaysAt: number, body?: string, partly = false): Promise<void> {
+    if (await tryRequeue(record, { decaysAt, body })) {
+        return;
+    }
+    const reason = 'Throttled and not requeued';
+    if (partly && body && (await deadLetterRemainder(record, body, { category: 'throttled', reason }))) {
+        return;
+    }
+    throw new ThrottledError(reason, decaysAt);
+}
+
+/**
+ * Re-send the tokens of a partly delivered record still worth retrying instead of failing it, so the
+ * devices it reached are not sent it again. The copy carries the record's failed attempts; once the
+ * transient retry budget is spent, or when it cannot be requeued, the remainder is dead-lettered instead.
+ */
+async function requeueRetryable(record: SQSRecord, body: string, retryAt: number, reason: string): Promise<void> {
+    const failure: { category: ErrorCategory; reason: string } = { category: 'transient', reason };
+    const attempts = attemptCount(record);
+    const spent = errorDisposition('transient', attempts, getConfig().retryBudgets) === 'dead-letter';
+    if (spent && (await deadLetterRemainder(record, body, failure))) {
+        return;
+    }
+    if (await tryRequeue(record, { decaysAt: retryAt, body, attempts })) {
+        return;
+    }
+    if (!spent && (await deadLetterRemainder(record, body, failure))) {
+        return;
+    }
+    throw new TransientUpstreamError(reason);
+}
+
+/**
+ * Hold `record` until `sendAt` (epoch seconds): parked in Redis under `id` when due later than
+ * SCHEDULE_AHEAD_SECONDS, delayed in SQS otherwise.
+ */
+async function postpone(redis: RedisClient, record: SQSRecord, id: string, sendAt: number): Promise<void> {
+    const { scheduleKey, scheduleAheadSeconds } = getConfig();
+    if (sendAt - Date.now() / 1000 > scheduleAheadSeconds) {
+        await schedule(redis, scheduleKey, { id, body: record.body }, sendAt);
+        log.info('Scheduled message', { scheduleId: id, sendAt: new Date(sendAt * 1000).toISOString() });
+    } else {
+        await deferRecord(getSqs(), record, sendAt);
+    }
+}
+
+function getAdaptiveLimit(redis: RedisClient) {
+    if (!adaptiveLimit) {
+        const config = getConfig();
+        adaptiveLimit = redisAdaptiveLimit(redis, `${hashTag(config.throttleKey)}:adaptive`, {
+            max: config.maxPerWindow,
+            min: config.adaptiveMinPerWindow,
+            windowSeconds: config.windowSeconds,
+            recoveryPerWindow: config.adaptiveRecoveryPerWindow,
+            maxPauseSeconds: config.adaptiveMaxPauseSeconds,
+        });
+    }
+    return adaptiveLimit;
+}
+
+/**
+ * The global cap as last adjusted to FCM's quota errors, the static one while Redis is unreachable.
+ */
+async function currentCeiling(redis: RedisClient): Promise<number> {
+    try {
+        return await getAdaptiveLimit(redis).ceiling();
+    } catch (err) {
+        if (!isRedisUnavailable(err, redis)) {
+            throw err;
+        }
+        return getConfig().maxPerWindow;
+    }
+}
+
+/**
+ * Cut the global cap on quota errors and pause every sender on `Retry-After`. Best-effort: the
+ * message is retried through SQS either way.
+ */
+async function reportSendError(redis: RedisClient, result: Pick<TokenResult, 'outcome' | 'retryAfter'>) {
+    if (result.outcome !== 'quota-exceeded' && result.retryAfter === undefined) {
+        return;
+    }
+    try {
+        await getAdaptiveLimit(redis).feedback(result);
+    } catch (err) {
+        log.error('Failed to adjust the adaptive limit', { err });
+    }
+}
+
+function getIdempotencyStore(redis: RedisClient) {
+    if (!idempotency) {
+        idempotency = redisIdempotencyStore(redis, getConfig().idempotencyTtlSeconds);
+    }
+    return idempotency;
+}
+
+async function processRecord(redis: RedisClient, record: SQSRecord, context: Context): Promise<void> {
+    log.debug('Processing message', { receiveCount: receiveCount(record) });
+    getMetrics().put('ReceiveCount', receiveCount(record));
+
+    let message = parseMessage(record.body);
+    addLogContext({ type: message.type, correlationId: message.correlationId });
+
+    const sendAt = sendAtSeconds(message);
+    if (sendAt !== undefined && sendAt - Date.now() / 1000 >= 1) {
+        // A delayed copy gets its own messageId: carry the key so copies of a redelivered record dedupe
+        const body = JSON.stringify({ ...message, idempotencyKey: idempotencyKey(record, message) });
+        await postpone(redis, { ...record, body }, record.messageId, sendAt);
+        return;
+    }
+
+    // Whatever falls outside its delivery window waits for the window to open
+    const { sendable, deferred } = splitByDeliveryWindow(message, Date.now());
+    if (deferred.length > 0) {
+        // Each part is delivered on its own, so it gets its own idempotency key
+        const key = idempotencyKey(record, message);
+        for (const part of deferred) {
+            const body = JSON.stringify({ ...part.message, idempotencyKey: `${key}:window:${part.sendAt}` });
+            await postpone(redis, { ...record, body }, `${record.messageId}:window:${part.sendAt}`, part.sendAt);
+        }
+    }
+    if (!sendable) {
+        return;
+    }
+    message = sendable;
+
+    // SQS delivers at least once: skip records already delivered, retry those whose delivery crashed
+    const store = getIdempotencyStore(redis);
+    const key = idempotencyKey(record, message);
+    const owner = `${context.awsRequestId}:${record.messageId}`;
+    let status: IdempotencyStatus | undefined;
+    try {
+        // The claim lasts as long as this invocation can; its single script call measures Redis latency
+        const started = Date.now();
+        status = await store.begin(key, owner, context.getRemainingTimeInMillis() / 1000);
+        getMetrics().put('RedisLatency', Date.now() - started, 'Milliseconds');
+    } catch (err) {
+        if (!isRedisUnavailable(err, redis)) {
+            throw err;
+        }
+        log.warn('Redis unavailable, delivering without deduplication');
+    }
+
+    if (status === 'completed') {
+        log.info('Skipping already delivered message', { idempotencyKey: key });
+        return;
+    }
+    if (status === 'in-progress') {
+        throw new ThrottledError('Being delivered by another invocation');
+    }
 
+    try {
+        await deliver(redis, record, message);
+    } catch (err) {
+        if (status) {
+            await store
+                .release(key, owner)
+                .catch((e) => log.error('Failed to release idempotency key', { idempotencyKey: key, err: e }));
+        }
+        throw err;
+    }
+    if (status) {
+        // The record is acknowledged anyway; failing it now would deliver it twice
+        await store
+            .complete(key, owner)
+            .catch((e) => log.error('Failed to complete idempotency key', { idempotencyKey: key, err: e }));
+    }
+}
+
+async function deliver(redis: RedisClient, record: SQSRecord, message: NotificationMessage): Promise<void> {
+    const config = getConfig();
+    const { windowSeconds } = config;
+    // One hash tag for every rule so the composite script runs on a single cluster slot
+    const throttleKey = hashTag(config.throttleKey);
+    const sender = getFcm();
+    const projectId = await sender.getProjectId();
+    // FCM's quota errors lower the global cap for every worker, and the project cap along with it
+    const ceiling = await currentCeiling(redis);
+    const { pauseKey } = getAdaptiveLimit(redis);
+    // Per Firebase project, per topic and per device caps, checked atomically with the global one
+    const limiter = (token?: string) => {
+        const builder = throttleAll(redis)
+            .rule(throttleKey, ceiling, windowSeconds, 'global')
+            .rule(
+                `${throttleKey}:project:${projectId}`,
+                Math.min(config.projectMaxPerWindow, ceiling),
+                windowSeconds,
+                'project',
+            );
+        if (message.type === 'topic') {
+            builder.rule(`${throttleKey}:topic:${message.topic}`, config.topicMaxPerWindow, windowSeconds, 'topic');
+        }
+        if (token) {
+            const tokenKey = createHash('sha256').update(token).digest('hex');
+            builder.rule(`${throttleKey}:token:${tokenKey}`, config.tokenMaxPerWindow, windowSeconds, 'token');
+        }
+        return builder.serverTime().pausedBy(pauseKey).fallback(getLimiterFallback()).block(0);
+    };
+
+    const typeMetrics = getMetrics().withDimensions({ type: message.type });
+    typeMetrics.put('LimiterCeiling', ceiling);
+    const recordAcquire = (info: LimiterAnswer<CompositeAcquireResult>) => {
+        typeMetrics.put('LimiterRemaining', info.remaining);
+        // The tightest rule is usually a topic or device, which says nothing about the shared budget
+        if (info.ruleRemaining?.global !== undefined) {
+            typeMetrics.put('GlobalRemaining', info.ruleRemaining.global);
+        }
+    };
+    const send = async (token?: string) => {
+        const started = Date.now();
         try {
-            const payload = JSON.parse(record.body);
-            const { type, title, body, topic, tokens } = payload;
-            await throttle(redis, FCM_THROTTLE_KEY)
-                .allow(MAX_BATCHES_PER_MINUTE)
-                .every(WINDOW_SECONDS)
-                .block(0)
-                .then(
-                    async () => {
-                        if (type === 'topic') {
-                            console.log('Pushing topic', title, body, topic);
-                            await sleep(3000);
-                        } else if (type === 'tokens') {
-                            console.log('Pushing tokens', title, body, tokens);
-                            await sleep(3000);
-                        }
-                    },
-                    async () => {
-                        console.log('Throttled by limiter');
-                        throw new Error('fcm_throttled');
-                    },
-                );
-        } catch (err) {
-            console.error('Error handling SQS message:', err);
+            return await sender.send(toFcmMessage(message, token));
+        } finally {
+            typeMetrics.put('SendLatency', Date.now() - started, 'Milliseconds');
+        }
+    };
+
+    if (message.type === 'tokens') {
+        log.info('Pushing tokens', { tokenCount: message.tokens.length });
+        const started = Date.now();
+        const { results, counts, throttledUntil } = await fanOut(message.tokens, send, {
+            chunkSize: config.tokenChunkSize,
+            concurrency: config.sendConcurrency,
+            limiter,
+            // A device over its own cap is deferred without holding back the others
+            tokenScoped: (info) => info.rejectedBy === 'token',
+            onSendError: (result) => reportSendError(redis, result),
+            onAcquire: recordAcquire,
+        });
+        log.info('Pushed tokens', { counts, durationMs: Date.now() - started, throttledUntil });
+        typeMetrics.put('Sent', counts.success);
+        typeMetrics.put('Throttled', counts.throttled);
+        for (const [outcome, count] of Object.entries(counts)) {
+            if (outcome !== 'success' && outcome !== 'throttled' && count > 0) {
+                typeMetrics.withDimensions({ errorCode: outcome }).put('Failed', count);
+            }
+        }
+
+        for (const result of results) {
+            if (result.outcome !== 'success' && result.outcome !== 'throttled') {
+                log.warn('Failed to push token', { token: result.token, outcome: result.outcome, err: result.error });
+            }
+        }
+
+        const deadTokens = collectDeadTokens(results);
+        const sink = getDeadTokenSink(redis);
+        if (sink && deadTokens.length > 0) {
+            try {
+                await sink.publish(projectId, deadTokens);
+            } catch (err) {
+                // Cleanup is best-effort, the tokens will be reported again on the next send
+                log.error('Failed to publish dead tokens', { err });
+            }
+        }
 
+        if (counts.throttled > 0) {
+            log.info('Throttled by limiter', { limiter: { allowed: false, throttled: counts.throttled } });
+            // Only the tokens still worth retrying go back on the queue
+            const remaining = results.filter((r) => RETRYABLE_OUTCOMES.includes(r.outcome)).map((r) => r.token);
+            const body = JSON.stringify({ ...message, tokens: remaining });
+            await requeueThrottled(record, throttledUntil ?? 0, body, counts.success > 0);
+            return;
+        }
+        const retryable = results.filter((r) => RETRYABLE_OUTCOMES.includes(r.outcome));
+        if (retryable.length === 0) {
+            return;
+        }
+        const reason = `FCM failed for ${retryable.length} tokens`;
+        if (retryable.length === results.length) {
+            throw new TransientUpstreamError(reason);
+        }
+        // Redelivering the whole record would notify the devices it reached again
+        const retryAt = Date.now() / 1000 + Math.max(0, ...retryable.map((r) => r.retryAfter ?? 0));
+        const body = JSON.stringify({ ...message, tokens: retryable.map((r) => r.token) });
+        await requeueRetryable(record, body, retryAt, reason);
+        return;
+    }
+
+    await limiter().then(
+        async (info) => {
+            recordAcquire(info);
+            log.info(`Pushing ${message.type}`, { limiter: { allowed: true } });
+            const started = Date.now();
+            let name: string;
+            try {
+                name = await send();
+            } catch (err) {
+                const outcome = classifySendError(err);
+                typeMetrics.withDimensions({ errorCode: outcome }).put('Failed', 1);
+                const retryAfter = err instanceof FcmError ? err.retryAfter : undefined;
+                await reportSendError(redis, { outcome, retryAfter });
+                throw err;
+            }
+            typeMetrics.put('Sent', 1);
+            log.info(`Pushed ${message.type}`, { fcmMessageName: name, durationMs: Date.now() - started });
+        },
+        async (info) => {
+            recordAcquire(info);
+            typeMetrics.put('Throttled', 1);
+            log.info('Throttled by limiter', {
+                limiter: {
+                    allowed: false,
+                    rejectedBy: info.paused ? 'pause' : info.rejectedBy,
+                    decaysAt: info.decaysAt,
+                },
+            });
+            await requeueThrottled(record, info.decaysAt);
+        },
+    );
+}
+
+/**
+ * Move a failed record to the DLQ. Resolves true when the send failed and the record must be failed instead.
+ */
+async function tryDeadLetter(
+    record: SQSRecord,
+    queueArn: string,
+    failure: { category: ErrorCategory; reason: string },
+): Promise<boolean> {
+    try {
+        await deadLetter(getSqs(), record, queueArn, failure);
+        return false;
+    } catch (err) {
+        log.error('Failed to dead-letter message', { category: failure.category, err });
+        return true;
+    }
+}
+
+/**
+ * Handle a record whose processing threw, by category and retry budget: drop it, move it to the DLQ,
+ * or leave it to SQS to redeliver. Resolves true when it must be reported as a batch item failure.
+ */
+async function settleFailure(record: SQSRecord, err: unknown): Promise<boolean> {
+    const { retryBudgets, deadLetterQueueArn } = getConfig();
+    const category = classifyError(err);
+    const reason = err instanceof Error ? err.message : String(err);
+
+    switch (errorDisposition(category, attemptCount(record), retryBudgets)) {
+        case 'drop':
+            if (!deadLetterQueueArn) {
+                log.error('Dropping invalid SQS message', { category, reason });
+                return false;
+            }
+            // Not worth retrying, but kept for the sender with its field errors in FailureReason
+            return tryDeadLetter(record, deadLetterQueueArn, { category, reason });
+        case 'dead-letter':
+            if (!deadLetterQueueArn) {
+                // The redrive policy moves it once maxReceiveCount is reached
+                log.error('Error handling SQS message', { category, disposition: 'redrive-policy', err });
+                return true;
+            }
+            return tryDeadLetter(record, deadLetterQueueArn, { category, reason });
+        default:
+            log.error('Error handling SQS message', { category, disposition: 'retry', err });
+            return true;
+    }
+}
+
+/**
+ * Connect the shared client unless it is connected. Resolves false when Redis is unreachable.
+ */
+async function connectRedis(redis: RedisClient): Promise<boolean> {
+    if (redis.status && redis.status !== 'end' && redis.status !== 'wait') {
+        return true;
+    }
+    log.info('Connecting to Redis', { status: redis.status });
+    try {
+        await redis.connect();
+        return true;
+    } catch (err) {
+        if (!isRedisUnavailable(err, redis)) {
             throw err;
         }
+        getLimiterFallback().breaker.recordFailure();
+        log.error('Redis unavailable', { limiterFallback: getLimiterFallback().policy, err });
+        return false;
     }
+}
+
+/**
+ * Process every record in the batch and report the failed ones through `batchItemFailures`
+ * (requires `FunctionResponseTypes: ReportBatchItemFailures` on the event source), so only
+ * those are redelivered instead of the whole batch.
+ */
+export const lambdaHandler = async (event: SQSEvent, context: Context): Promise<SQSBatchResponse> =>
+    withLogContext({ awsRequestId: context.awsRequestId }, async () => {
+        log.info('Received batch', { batchSize: event.Records.length });
+        log.debug('Received event', { event });
+
+        try {
+            getMetrics().put('BatchSize', event.Records.length);
+
+            const redis = getRedis();
+            // When Redis is unreachable the limiter's fallback policy decides what happens to the batch
+            await connectRedis(redis);
+
+            const batchItemFailures: SQSBatchItemFailure[] = [];
+
+            for (const record of event.Records as SQSRecord[]) {
+                await withLogContext({ messageId: record.messageId }, async () => {
+                    const started = Date.now();
+                    let failed = false;
+                    try {
+                        await processRecord(redis, record, context);
+                    } catch (err) {
+                        failed = await settleFailure(record, err);
+                    }
+                    if (failed) {
+                        batchItemFailures.push({ itemIdentifier: record.messageId });
+                    }
+                    log.info('Processed message', { durationMs: Date.now() - started, failed });
+                });
+            }
+
+            return { batchItemFailures };
+        } finally {
+            metrics?.flush();
+        }
+    });
+
+/** Time left to the scheduled handler when it stops claiming due messages. */
+const SCHEDULE_DRAIN_MARGIN_MS = 10000;
+
+export interface ScheduledDispatchResult {
+    dispatched: number;
+    failed: number;
+}
+
+/**
+ * Run on a schedule: dispatch the parked messages that are due through the same path as SQS records.
+ * A message whose dispatch fails stays parked and is retried once its claim expires, unless its failure
+ * gets it dropped or dead-lettered.
+ */
+export const scheduledHandler = async (event: ScheduledEvent, context: Context): Promise<ScheduledDispatchResult> =>
+    withLogContext({ awsRequestId: context.awsRequestId }, async () => {
+        const { scheduleKey, scheduleBatchSize, mainQueueArn } = getConfig();
+        if (!mainQueueArn) {
+            throw new InfrastructureError('MAIN_QUEUE_ARN is not set');
+        }
+
+        const redis = getRedis();
+        if (!(await connectRedis(redis))) {
+            throw new InfrastructureError('Redis unavailable, scheduled messages stay parked');
+        }
+
+        const result: ScheduledDispatchResult = { dispatched: 0, failed: 0 };
+        try {
+            while (context.getRemainingTimeInMillis() > SCHEDULE_DRAIN_MARGIN_MS) {
+                // Claims last as long as this invocation can
+                const due = await claimDue(redis, scheduleKey, {
+                    limit: scheduleBatchSize,
+                    leaseSeconds: Math.ceil(context.getRemainingTimeInMillis() / 1000),
+                });
+                if (due.length === 0) {
+                    break;
+                }
+
+                for (const item of due) {
+                    const record = scheduledRecord(item, mainQueueArn);
+                    await withLogContext({ messageId: record.messageId }, async () => {
+                        const started = Date.now();
+                        try {
+                            await processRecord(redis, record, context);
+                            await unschedule(redis, scheduleKey, item);
+                            result.dispatched++;
+                        } catch (err) {
+                            log.error('Error dispatching scheduled message', { err });
+                            result.failed++;
+                            // Dropped and dead-lettered messages are done with; the others stay parked
+                            if (!(await settleFailure(record, err))) {
+                                await unschedule(redis, scheduleKey, item);
+                            }
+                        }
+                        log.info('Processed scheduled message', { durationMs: Date.now() - started });
+                    });
+                }
+            }
+        } finally {
+            metrics?.flush();
+        }
+
+        log.info('Dispatched scheduled messages', { ...result });
+        return result;
+    });
+
+/**
+ * DLQ tooling over DEAD_LETTER_QUEUE_ARN, redriving to MAIN_QUEUE_ARN.
+ */
+export function getDeadLetterAdmin(): DeadLetterAdmin {
+    const { deadLetterQueueArn, mainQueueArn } = getConfig();
+    if (!deadLetterQueueArn || !mainQueueArn) {
+        throw new InfrastructureError('DEAD_LETTER_QUEUE_ARN and MAIN_QUEUE_ARN must be set');
+    }
+    return deadLetterAdmin(getSqs(), {
+        deadLetterQueueUrl: queueUrlFromArn(deadLetterQueueArn),
+        mainQueueUrl: queueUrlFromArn(mainQueueArn),
+    });
+}
+
+/**
+ * Rewrite dropping the tokens the Redis dead-token sink recorded for this worker's Firebase project.
+ */
+export async function deadTokensRewrite(): Promise<Rewrite> {
+    const redis = getRedis();
+    if (!(await connectRedis(redis))) {
+        throw new InfrastructureError('Redis unavailable, dead tokens unknown');
+    }
+    return withoutDeadTokens(redis, await getFcm().getProjectId());
+}
+
+/**
+ * Invoked by hand (console, `aws lambda invoke`) to list or redrive the dead-letter queue,
+ * e.g. `{"action": "redrive", "filter": {"type": "tokens"}, "dropDeadTokens": true}`.
+ */
+export const deadLetterHandler = async (event: DeadLetterCommand): Promise<DeadLetter[] | RedriveResult> => {
+    log.info('Received dead-letter command', { command: event });
+    return runDeadLetterCommand(getDeadLetterAdmin(), event, deadTokensRewrite);
 };
@@ -0,0 +1,263 @@
+import { DEAD_TOKEN_SINKS, DeadTokenSinkOptions } from './deadtokens';
+import { LIMITER_FALLBACK_POLICIES, LimiterFallbackPolicy } from './degraded';
+import { InfrastructureError, RetryBudgets } from './errors';
+import type { ServiceAccount } from './fcm';
+import { LOG_LEVELS, LogLevel } from './logger';
+import { RedisConnection, parseRedisUrl } from './redis';
+import { MAX_DELAY_SECONDS, queueUrlFromArn } from './requeue';
+
+export interface Config {
+    /** `Stage` */
+    stage: string;
+    /** `LOG_LEVEL`: lowest level written */
+    logLevel: LogLevel;
+    /** `METRICS_NAMESPACE`: CloudWatch namespace of the worker's metrics */
+    metricsNamespace: string;
+
+    /** `REDIS_URL` (required): a server, cluster or sentinel URL, see `parseRedisUrl` */
+    redis: RedisConnection;
+    /** `REDIS_MAX_RETRIES`: reconnect attempts and retries per command before giving up */
+    redisMaxRetries: number;
+    /** `REDIS_RETRY_DELAY_MS`: reconnect backoff step, multiplied by the attempt number */
+    redisRetryDelayMs: number;
+    /** `REDIS_CONNECT_TIMEOUT_MS` */
+    redisConnectTimeoutMs: number;
+
+    /** `FCM_THROTTLE_KEY`: prefix of every limiter key */
+    throttleKey: string;
+    /** `WINDOW_SECONDS`: size of every limiter window */
+    windowSeconds: number;
+    /** `MAX_BATCHES_PER_WINDOW`: global cap across every Lambda */
+    maxPerWindow: number;
+    /** `PROJECT_MAX_PER_WINDOW`, defaults to the global cap */
+    projectMaxPerWindow: number;
+    /** `TOPIC_MAX_PER_WINDOW` */
+    topicMaxPerWindow: number;
+    /** `TOKEN_MAX_PER_WINDOW` */
+    tokenMaxPerWindow: number;
+    /** `LIMITER_FALLBACK`: what the limiter does while Redis is unreachable */
+    limiterFallback: LimiterFallbackPolicy;
+    /** `MAX_CONCURRENCY`: the event source's MaximumConcurrency, sizes each Lambda's local fallback bucket */
+    maxConcurrency: number;
+    /** `ADAPTIVE_MIN_PER_WINDOW`: lowest global cap FCM quota errors can cut it to, defaults to 5% of it */
+    adaptiveMinPerWindow: number;
+    /** `ADAPTIVE_RECOVERY_PER_WINDOW`: permits per window given back to the global cap after a cut */
+    adaptiveRecoveryPerWindow: number;
+    /** `ADAPTIVE_MAX_PAUSE_SECONDS`: longest pause an FCM `Retry-After` can put every sender in */
+    adaptiveMaxPauseSeconds: number;
+
+    /** `FCM_SERVICE_ACCOUNT`: service account JSON key, required to send */
+    fcmServiceAccount?: ServiceAccount;
+    /** `FCM_PROJECT_ID`: send to this project instead of the service account's own */
+    fcmProjectId?: string;
+    /** `FCM_BASE_URL`: FCM endpoint override */
+    fcmBaseUrl?: string;
+    /** `TOKEN_CHUNK_SIZE`: tokens per fan-out chunk */
+    tokenChunkSize: number;
+    /** `SEND_CONCURRENCY`: FCM sends in flight per chunk */
+    sendConcurrency: number;
+    /** `DEAD_TOKEN_SINK`, with `DEAD_TOKEN_QUEUE_URL` or `DEAD_TOKEN_WEBHOOK_URL` as it requires */
+    deadTokenSink: DeadTokenSinkOptions;
+
+    /** `REQUEUE_JITTER_SECONDS`: random delay added to throttled requeues, per requeue */
+    requeueJitterSeconds: number;
+    /** `MAX_REQUEUES`: throttled requeues before a message fails normally */
+    maxRequeues: number;
+    /** `IDEMPOTENCY_TTL_SECONDS`: how long a delivered message is remembered to skip redeliveries */
+    idempotencyTtlSeconds: number;
+    /** `RETRY_BUDGET_<CATEGORY>`: deliveries per error category before a record is dead-lettered */
+    retryBudgets: RetryBudgets;
+    /** `DEAD_LETTER_QUEUE_ARN`: where records out of retries go; without it they wait for the redrive policy */
+    deadLetterQueueArn?: string;
+
+    /** `SCHEDULE_KEY`: sorted set of messages parked until their `sendAt` */
+    scheduleKey: string;
+    /** `SCHEDULE_AHEAD_SECONDS`: messages due later than this are parked, sooner ones delayed in SQS */
+    scheduleAheadSeconds: number;
+    /** `SCHEDULE_BATCH_SIZE`: due messages claimed at once by the scheduled handler */
+    scheduleBatchSize: number;
+    /** `MAIN_QUEUE_ARN`: queue the scheduled handler requeues throttled messages to */
+    mainQueueArn?: string;
+}
+
+export interface ConfigIssue {
+    variable: string;
+    message: string;
+}
+
+/**
+ * Thrown by `loadConfig` with every invalid variable, not just the first one.
+ */
+export class ConfigError extends InfrastructureError {
+    readonly issues: ConfigIssue[];
+
+    constructor(issues: ConfigIssue[]) {
+        super(`Invalid configuration: ${issues.map((i) => `${i.variable}: ${i.message}`).join('; ')}`);
+        this.name = 'ConfigError';
+        this.issues = issues;
+    }
+}
+
+/**
+ * Read and validate the worker configuration from `env`, falling back to defaults for unset variables.
+ * Throws a ConfigError listing every invalid variable.
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): Config {
+    const issues: ConfigIssue[] = [];
+
+    // Empty values count as unset, like variables left blank in template.yaml
+    const raw = (variable: string): string | undefined => env[variable]?.trim() || undefined;
+
+    const int = (variable: string, fallback: number, min: number, max = Infinity): number => {
+        const value = raw(variable);
+        if (value === undefined) {
+            return fallback;
+        }
+        const parsed = Number(value);
+        if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+            const range = max === Infinity ? `>= ${min}` : `between ${min} and ${max}`;
+            issues.push({ variable, message: `must be an integer ${range}, got "${value}"` });
+            return fallback;
+        }
+        return parsed;
+    };
+
+    const queueArn = (variable: string): string | undefined => {
+        const value = raw(variable);
+        try {
+            if (value !== undefined) {
+                queueUrlFromArn(value);
+            }
+        } catch (err) {
+            issues.push({ variable, message: (err as Error).message });
+        }
+        return value;
+    };
+
+    const oneOf = <T extends string>(variable: string, values: readonly T[], fallback: T): T => {
+        const value = raw(variable) ?? fallback;
+        if (!values.includes(value as T)) {
+            issues.push({ variable, message: `must be one of ${values.join(', ')}, got "${value}"` });
+            return fallback;
+        }
+        return value as T;
+    };
+
+    const redis = (variable: string): RedisConnection => {
+        const value = raw(variable);
+        try {
+            if (value !== undefined) {
+                return parseRedisUrl(value);
+            }
+            issues.push({ variable, message: 'is required' });
+        } catch (err) {
+            issues.push({ variable, message: (err as Error).message });
+        }
+        return { mode: 'standalone', nodes: [], tls: false, db: 0 };
+    };
+
+    const url = (variable: string, protocols: readonly string[]): string | undefined => {
+        const value = raw(variable);
+        if (value === undefined) {
+            return undefined;
+        }
+        try {
+            const { protocol } = new URL(value);
+            if (!protocols.includes(protocol)) {
+                issues.push({ variable, message: `must use ${protocols.join(' or ')}` });
+            }
+        } catch {
+            issues.push({ variable, message: 'must be a URL' });
+        }
+        return value;
+    };
+
+    const serviceAccount = (variable: string): ServiceAccount | undefined => {
+        const value = raw(variable);
+        if (value === undefined) {
+            return undefined;
+        }
+        // The value is a secret: issues name what is wrong with it, never its content
+        let account: Partial<ServiceAccount> | null;
+        try {
+            account = JSON.parse(value);
+        } catch {
+            issues.push({ variable, message: 'must be a service account JSON key' });
+            return undefined;
+        }
+        const missing = (['project_id', 'client_email', 'private_key'] as const).filter(
+            (field) => typeof account?.[field] !== 'string' || !account[field],
+        );
+        if (missing.length > 0) {
+            issues.push({ variable, message: `is missing ${missing.join(', ')}` });
+            return undefined;
+        }
+        return account as ServiceAccount;
+    };
+
+    const deadTokenSink = (): DeadTokenSinkOptions => {
+        const kind = oneOf('DEAD_TOKEN_SINK', DEAD_TOKEN_SINKS, 'redis');
+        const queueUrl = url('DEAD_TOKEN_QUEUE_URL', ['https:', 'http:']);
+        const webhookUrl = url('DEAD_TOKEN_WEBHOOK_URL', ['https:', 'http:']);
+        if (kind === 'sqs' && queueUrl === undefined) {
+            issues.push({ variable: 'DEAD_TOKEN_QUEUE_URL', message: 'is required by DEAD_TOKEN_SINK=sqs' });
+        }
+        if (kind === 'webhook' && webhookUrl === undefined) {
+            issues.push({ variable: 'DEAD_TOKEN_WEBHOOK_URL', message: 'is required by DEAD_TOKEN_SINK=webhook' });
+        }
+        return { kind, queueUrl, webhookUrl };
+    };
+
+    const maxPerWindow = int('MAX_BATCHES_PER_WINDOW', 1200, 1);
+    const adaptiveStep = Math.max(1, Math.floor(maxPerWindow / 20));
+
+    const config: Config = {
+        stage: raw('Stage') ?? 'staging',
+        logLevel: oneOf('LOG_LEVEL', LOG_LEVELS, 'info'),
+        metricsNamespace: raw('METRICS_NAMESPACE') ?? 'FCMWorker',
+
+        redis: redis('REDIS_URL'),
+        redisMaxRetries: int('REDIS_MAX_RETRIES', 3, 0),
+        redisRetryDelayMs: int('REDIS_RETRY_DELAY_MS', 200, 0),
+        redisConnectTimeoutMs: int('REDIS_CONNECT_TIMEOUT_MS', 10000, 1),
+
+        throttleKey: raw('FCM_THROTTLE_KEY') ?? 'fcm_throttle_key',
+        windowSeconds: int('WINDOW_SECONDS', 60, 1),
+        maxPerWindow,
+        projectMaxPerWindow: int('PROJECT_MAX_PER_WINDOW', maxPerWindow, 1),
+        topicMaxPerWindow: int('TOPIC_MAX_PER_WINDOW', 10, 1),
+        tokenMaxPerWindow: int('TOKEN_MAX_PER_WINDOW', 5, 1),
+        limiterFallback: oneOf('LIMITER_FALLBACK', LIMITER_FALLBACK_POLICIES, 'fail-closed'),
+        maxConcurrency: int('MAX_CONCURRENCY', 10, 1),
+        adaptiveMinPerWindow: int('ADAPTIVE_MIN_PER_WINDOW', adaptiveStep, 1, maxPerWindow),
+        adaptiveRecoveryPerWindow: int('ADAPTIVE_RECOVERY_PER_WINDOW', adaptiveStep, 1),
+        adaptiveMaxPauseSeconds: int('ADAPTIVE_MAX_PAUSE_SECONDS', 300, 0),
+
+        fcmServiceAccount: serviceAccount('FCM_SERVICE_ACCOUNT'),
+        fcmProjectId: raw('FCM_PROJECT_ID'),
+        fcmBaseUrl: url('FCM_BASE_URL', ['http:', 'https:']),
+        tokenChunkSize: int('TOKEN_CHUNK_SIZE', 500, 1),
+        sendConcurrency: int('SEND_CONCURRENCY', 10, 1),
+        deadTokenSink: deadTokenSink(),
+
+        requeueJitterSeconds: int('REQUEUE_JITTER_SECONDS', 5, 0),
+        maxRequeues: int('MAX_REQUEUES', 20, 0),
+        idempotencyTtlSeconds: int('IDEMPOTENCY_TTL_SECONDS', 86400, 1),
+        retryBudgets: {
+            transient: int('RETRY_BUDGET_TRANSIENT', 5, 1),
+            throttled: int('RETRY_BUDGET_THROTTLED', 10, 1),
+            infrastructure: int('RETRY_BUDGET_INFRASTRUCTURE', 10, 1),
+        },
+        deadLetterQueueArn: queueArn('DEAD_LETTER_QUEUE_ARN'),
+
+        scheduleKey: raw('SCHEDULE_KEY') ?? 'fcm:scheduled',
+        scheduleAheadSeconds: int('SCHEDULE_AHEAD_SECONDS', 300, 0, MAX_DELAY_SECONDS),
+        scheduleBatchSize: int('SCHEDULE_BATCH_SIZE', 100, 1),
+        mainQueueArn: queueArn('MAIN_QUEUE_ARN'),
+    };
+
+    if (issues.length > 0) {
+        throw new ConfigError(issues);
+    }
+    return config;
+}
@@ -0,0 +1,162 @@
+import { createHash } from 'crypto';
+import { InfrastructureError } from './errors';
+import type { TokenResult } from './fanout';
+import type { RedisClient } from './redis';
+import type { SqsClient } from './sqs';
+
+export type DeadTokenReason = 'unregistered' | 'invalid-argument';
+
+export const DEAD_TOKEN_SINKS = ['redis', 'sqs', 'webhook', 'none'] as const;
+
+export type DeadTokenSinkKind = (typeof DEAD_TOKEN_SINKS)[number];
+
+/**
+ * Sink settings, validated by `loadConfig`: `queueUrl` is set for `sqs`, `webhookUrl` for `webhook`.
+ */
+export interface DeadTokenSinkOptions {
+    kind: DeadTokenSinkKind;
+    queueUrl?: string;
+    webhookUrl?: string;
+}
+
+export interface DeadToken {
+    token: string;
+    reason: DeadTokenReason;
+}
+
+/**
+ * Destination for tokens FCM reported as no longer valid.
+ * `app` identifies the Firebase project the tokens belong to.
+ */
+export interface DeadTokenSink {
+    publish(app: string, tokens: DeadToken[]): Promise<void>;
+}
+
+/**
+ * Pick the dead tokens out of a fan-out result.
+ */
+export function collectDeadTokens(results: readonly TokenResult[]): DeadToken[] {
+    return results
+        .filter((r) => r.outcome === 'unregistered' || r.outcome === 'invalid-argument')
+        .map((r) => ({ token: r.token, reason: r.outcome as DeadTokenReason }));
+}
+
+export const deadTokensKey = (app: string) => `fcm:dead_tokens:${app}`;
+
+/**
+ * Add dead tokens to a Redis set per app (`fcm:dead_tokens:{app}`) for the backend to drain.
+ */
+export function redisSetSink(redis: RedisClient): DeadTokenSink {
+    return {
+        async publish(app, tokens) {
+            if (tokens.length === 0) {
+                return;
+            }
+            await redis.sadd(
+                deadTokensKey(app),
+                tokens.map((t) => t.token),
+            );
+        },
+    };
+}
+
+/**
+ * Send dead tokens to a "token-cleanup" SQS queue as one message per publish.
+ */
+export function sqsQueueSink(sqs: SqsClient, queueUrl: string): DeadTokenSink {
+    return {
+        async publish(app, tokens) {
+            if (tokens.length === 0) {
+                return;
+            }
+            await sqs.sendMessage({ queueUrl, body: JSON.stringify({ app, tokens }) });
+        },
+    };
+}
+
+/**
+ * POST dead tokens as JSON to a webhook, giving up after `timeoutMs`.
+ */
+export function webhookSink(url: string, timeoutMs = 5000): DeadTokenSink {
+    return {
+        async publish(app, tokens) {
+            if (tokens.length === 0) {
+                return;
+            }
+            const res = await fetch(url, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ app, tokens }),
+                signal: AbortSignal.timeout(timeoutMs),
+            }).catch((err: unknown) => {
+                if ((err as { name?: unknown } | undefined)?.name === 'TimeoutError') {
+                    throw new Error(`Dead token webhook did not respond within ${timeoutMs}ms`);
+                }
+                throw err;
+            });
+            if (!res.ok) {
+                throw new Error(`Dead token webhook responded with ${res.status}`);
+            }
+        },
+    };
+}
+
+const tokenHash = (token: string) => createHash('sha256').update(token).digest('hex');
+
+/**
+ * Wrap a sink so a token is only reported once per `ttlSeconds`, across all workers.
+ * Seen tokens are recorded in Redis with SET NX before being forwarded.
+ */
+export function dedupeSink(sink: DeadTokenSink, redis: RedisClient, ttlSeconds = 86400): DeadTokenSink {
+    return {
+        async publish(app, tokens) {
+            if (tokens.length === 0) {
+                return;
+            }
+
+            // Tagged by app: a cluster pipeline must stay on one slot
+            const pipeline = redis.pipeline();
+            for (const { token } of tokens) {
+                pipeline.set(`fcm:dead_token_seen:{${app}}:${tokenHash(token)}`, '1', 'EX', ttlSeconds, 'NX');
+            }
+            const replies = (await pipeline.exec()) ?? [];
+
+            const fresh = tokens.filter((_, i) => replies[i]?.[1] === 'OK');
+            await sink.publish(app, fresh);
+        },
+    };
+}
+
+/**
+ * Build the sink selected by `DEAD_TOKEN_SINK` (redis | sqs | webhook | none).
+ * Returns undefined when dead token reporting is disabled.
+ */
+export function createDeadTokenSink(
+    options: DeadTokenSinkOptions,
+    redis: RedisClient,
+    sqs: () => SqsClient,
+): DeadTokenSink | undefined {
+    let sink: DeadTokenSink;
+    switch (options.kind) {
+        case 'none':
+            return undefined;
+        case 'redis':
+            // A set already deduplicates, no need for the SET NX round-trip
+            return redisSetSink(redis);
+        case 'sqs':
+            sink = sqsQueueSink(sqs(), required(options.queueUrl, 'DEAD_TOKEN_QUEUE_URL'));
+            break;
+        case 'webhook':
+            sink = webhookSink(required(options.webhookUrl, 'DEAD_TOKEN_WEBHOOK_URL'));
+            break;
+    }
+
+    return dedupeSink(sink, redis);
+}
+
+function required(value: string | undefined, variable: string): string {
+    if (!value) {
+        throw new InfrastructureError(`${variable} is not set`);
+    }
+    return value;
+}
@@ -0,0 +1,243 @@
+import { ReplyError } from 'ioredis';
+import type { RedisClient } from './redis';
+import type { DurationAcquireResult } from './throttle';
+import { log } from './logger';
+
+/**
+ * What the limiter does while Redis is unreachable:
+ *  - fail-closed: reject every acquire until Redis is back (callers requeue with a delay)
+ *  - fail-open: allow every acquire
+ *  - local: allow what an in-process token bucket allows
+ */
+export type LimiterFallbackPolicy = 'fail-closed' | 'fail-open' | 'local';
+
+export const LIMITER_FALLBACK_POLICIES: readonly LimiterFallbackPolicy[] = ['fail-closed', 'fail-open', 'local'];
+
+const CONNECTION_ERROR_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'ENOTFOUND', 'EHOSTUNREACH', 'EPIPE'];
+
+/**
+ * Tell connectivity errors (the limiter can't reach Redis) from errors the server answered with,
+ * like a failing script, which must not trigger the fallback.
+ */
+export function isRedisUnavailable(err: unknown, redis?: Pick<RedisClient, 'status'>): boolean {
+    if (err instanceof ReplyError) {
+        return false;
+    }
+    if (redis && redis.status !== 'ready') {
+        return true;
+    }
+    const { code, name, message } = (err ?? {}) as NodeJS.ErrnoException;
+    return (
+        name === 'MaxRetriesPerRequestError' ||
+        (code !== undefined && CONNECTION_ERROR_CODES.includes(code)) ||
+        /Connection is closed|Stream isn't writeable|Command timed out/.test(message ?? '')
+    );
+}
+
+export interface CircuitBreakerOptions {
+    /** Consecutive failures before the breaker opens. */
+    failureThreshold?: number;
+    /** How long the breaker stays open before letting one probe through. */
+    resetAfterMs?: number;
+    now?: () => number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Stops calling Redis after repeated connectivity failures, then lets a single probe
+ * through every `resetAfterMs` until one succeeds.
+ */
+export class CircuitBreaker {
+    readonly failureThreshold: number;
+    readonly resetAfterMs: number;
+
+    private readonly now: () => number;
+    private failures = 0;
+    private openedAt?: number;
+    private probing = false;
+
+    constructor({ failureThreshold = 3, resetAfterMs = 10000, now = Date.now }: CircuitBreakerOptions = {}) {
+        this.failureThreshold = failureThreshold;
+        this.resetAfterMs = resetAfterMs;
+        this.now = now;
+    }
+
+    get state(): CircuitState {
+        if (this.openedAt === undefined) {
+            return 'closed';
+        }
+        return this.now() >= this.retryAt() ? 'half-open' : 'open';
+    }
+
+    /**
+     * Epoch milliseconds from which Redis is tried again: now while closed.
+     */
+    retryAt(): number {
+        return this.openedAt === undefined ? this.now() : this.openedAt + this.resetAfterMs;
+    }
+
+    /**
+     * Whether to try Redis now. While half-open, only one caller gets to probe.
+     */
+    allowRequest(): boolean {
+        switch (this.state) {
+            case 'closed':
+                return true;
+            case 'open':
+                return false;
+            case 'half-open':
+                if (this.probing) {
+                    return false;
+                }
+                this.probing = true;
+                return true;
+        }
+    }
+
+    recordSuccess(): void {
+        this.failures = 0;
+        this.openedAt = undefined;
+        this.probing = false;
+    }
+
+    recordFailure(): void {
+        this.failures++;
+        this.probing = false;
+        // A failed probe re-opens right away
+        if (this.openedAt !== undefined || this.failures >= this.failureThreshold) {
+            this.openedAt = this.now();
+        }
+    }
+}
+
+/**
+ * In-process token bucket: `capacity` permits refilled evenly over `windowSeconds`.
+ */
+export class LocalTokenBucket {
+    readonly capacity: number;
+    readonly windowSeconds: number;
+
+    private readonly now: () => number;
+    private tokens: number;
+    private updatedAt: number;
+
+    constructor(capacity: number, windowSeconds: number, now: () => number = Date.now) {
+        this.capacity = capacity;
+        this.windowSeconds = windowSeconds;
+        this.now = now;
+        this.tokens = capacity;
+        this.updatedAt = now();
+    }
+
+    take(cost = 1): DurationAcquireResult {
+        const now = this.now();
+        const perMs = this.capacity / (this.windowSeconds * 1000);
+        this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * perMs);
+        this.updatedAt = now;
+
+        if (this.tokens >= cost) {
+            this.tokens -= cost;
+            const fullInMs = (this.capacity - this.tokens) / perMs;
+            return {
+                allowed: true,
+                decaysAt: (now + fullInMs) / 1000,
+                remaining: Math.floor(this.tokens),
+                granted: cost,
+            };
+        }
+
+        const missingMs = (cost - this.tokens) / perMs;
+        return { allowed: false, decaysAt: (now + missingMs) / 1000, remaining: Math.floor(this.tokens), granted: 0 };
+    }
+}
+
+/**
+ * Wraps limiter acquires with a circuit breaker and answers with `policy` while Redis is unreachable.
+ * Keep one instance per process so the breaker and local bucket outlive a single invocation.
+ */
+export class LimiterFallback {
+    readonly policy: LimiterFallbackPolicy;
+    readonly breaker: CircuitBreaker;
+    readonly bucket?: LocalTokenBucket;
+
+    constructor(policy: LimiterFallbackPolicy, breaker = new CircuitBreaker(), bucket?: LocalTokenBucket) {
+        if (policy === 'local' && !bucket) {
+            throw new Error('The local limiter fallback needs a LocalTokenBucket');
+        }
+        this.policy = policy;
+        this.breaker = breaker;
+        this.bucket = bucket;
+    }
+
+    /**
+     * Run `acquire` against Redis unless the breaker is open; fall back on connectivity errors.
+     */
+    async acquire<T extends DurationAcquireResult>(
+        redis: RedisClient,
+        acquire: () => Promise<T>,
+        cost = 1,
+    ): Promise<T | DurationAcquireResult> {
+        if (this.breaker.allowRequest()) {
+            try {
+                // The client gives up after its retries; reconnect when probing
+                if (redis.status === 'end') {
+                    await redis.connect();
+                }
+                const result = await acquire();
+                this.breaker.recordSuccess();
+                return result;
+            } catch (err) {
+                if (!isRedisUnavailable(err, redis)) {
+                    throw err;
+                }
+                this.breaker.recordFailure();
+                log.warn('Redis unavailable, limiter falls back', { policy: this.policy, err });
+            }
+        }
+        return this.degrade(cost);
+    }
+
+    /**
+     * The fallback answer for `cost` permits.
+     */
+    degrade(cost = 1): DurationAcquireResult {
+        switch (this.policy) {
+            case 'fail-open':
+                return { allowed: true, decaysAt: Date.now() / 1000, remaining: 0, granted: cost, degraded: true };
+            case 'local':
+                return { ...(this.bucket as LocalTokenBucket).take(cost), degraded: true };
+            case 'fail-closed':
+                return {
+                    allowed: false,
+                    decaysAt: this.breaker.retryAt() / 1000,
+                    remaining: 0,
+                    granted: 0,
+                    degraded: true,
+                };
+        }
+    }
+}
+
+export interface LimiterFallbackOptions extends CircuitBreakerOptions {
+    /** Permits per window for the local bucket, e.g. the global limit divided by the Lambda concurrency. */
+    localMaxLocks: number;
+    windowSeconds: number;
+}
+
+/**
+ * Build the fallback selected by `policy` (e.g. the LIMITER_FALLBACK variable), fail-closed by default.
+ */
+export function createLimiterFallback(policy: string | undefined, options: LimiterFallbackOptions): LimiterFallback {
+    const kind = policy || 'fail-closed';
+    if (!LIMITER_FALLBACK_POLICIES.includes(kind as LimiterFallbackPolicy)) {
+        throw new Error(`Unknown LIMITER_FALLBACK: ${kind}`);
+    }
+
+    const bucket =
+        kind === 'local'
+            ? new LocalTokenBucket(Math.max(1, Math.floor(options.localMaxLocks)), options.windowSeconds, options.now)
+            : undefined;
+
+    return new LimiterFallback(kind as LimiterFallbackPolicy, new CircuitBreaker(options), bucket);
+}
@@ -0,0 +1,135 @@
+import { parseArgs } from 'util';
+import { deadTokensRewrite, getDeadLetterAdmin, getRedis } from './app';
+import { DeadLetterAdmin, DeadLetterCommand, Rewrite, runDeadLetterCommand } from './dlq';
+import { MessageType } from './message';
+
+const USAGE = `Usage: npm run dlq -- <list|redrive> [options]
+
+Commands (against DEAD_LETTER_QUEUE_ARN, redriving to MAIN_QUEUE_ARN):
+  list      Print matching dead letters with their failure category and reason, one JSON per line
+  redrive   Send matching dead letters back to the main queue and delete them from the DLQ
+
+Options:
+  --id <id>             Only this DLQ message id (repeatable)
+  --type <type>         Only topic, tokens or condition messages
+  --topic <topic>       Only topic messages to this topic
+  --category <category> Only messages dead-lettered for this error category, e.g. transient
+  --older-than <secs>   Only messages sent at least this many seconds ago
+  --newer-than <secs>   Only messages sent at most this many seconds ago
+  --limit <n>           Stop after this many matching messages (default 100)
+  --drop-token <token>  redrive: remove this token first (repeatable)
+  --drop-dead-tokens    redrive: remove the tokens the Redis dead-token sink recorded first
+  --dry-run             redrive: report what would happen without sending or deleting`;
+
+const MESSAGE_TYPES: MessageType[] = ['topic', 'tokens', 'condition'];
+
+/**
+ * Read `argv` into a command, or undefined when it isn't a valid one.
+ */
+export function parseDeadLetterArgs(argv: string[]): DeadLetterCommand | undefined {
+    let parsed;
+    try {
+        parsed = parseArgs({
+            args: argv,
+            allowPositionals: true,
+            options: {
+                id: { type: 'string', multiple: true },
+                type: { type: 'string' },
+                topic: { type: 'string' },
+                category: { type: 'string' },
+                'older-than': { type: 'string' },
+                'newer-than': { type: 'string' },
+                limit: { type: 'string' },
+                'drop-token': { type: 'string', multiple: true },
+                'drop-dead-tokens': { type: 'boolean' },
+                'dry-run': { type: 'boolean' },
+            },
+        });
+    } catch {
+        return undefined;
+    }
+
+    const { positionals, values } = parsed;
+    const [action] = positionals;
+    if (positionals.length !== 1 || (action !== 'list' && action !== 'redrive')) {
+        return undefined;
+    }
+    if (values.type !== undefined && !MESSAGE_TYPES.includes(values.type as MessageType)) {
+        return undefined;
+    }
+
+    const number = (value: string | undefined) => (value === undefined ? undefined : Number(value));
+    const minAgeSeconds = number(values['older-than']);
+    const maxAgeSeconds = number(values['newer-than']);
+    const limit = number(values.limit);
+    if ([minAgeSeconds, maxAgeSeconds, limit].some((n) => n !== undefined && !(n >= 0))) {
+        return undefined;
+    }
+
+    return {
+        action,
+        filter: {
+            ids: values.id,
+            type: values.type as MessageType | undefined,
+            topic: values.topic,
+            category: values.category,
+            minAgeSeconds,
+            maxAgeSeconds,
+        },
+        limit,
+        dryRun: values['dry-run'],
+        dropTokens: values['drop-token'],
+        dropDeadTokens: values['drop-dead-tokens'],
+    };
+}
+
+/**
+ * Run one CLI command and resolve with the process exit code.
+ */
+export async function dlqCli(
+    admin: DeadLetterAdmin,
+    argv: string[],
+    print: (line: string) => void = console.log,
+    deadTokens?: () => Promise<Rewrite>,
+): Promise<number> {
+    const command = parseDeadLetterArgs(argv);
+    if (!command) {
+        print(USAGE);
+        return 1;
+    }
+
+    const result = await runDeadLetterCommand(admin, command, deadTokens);
+    if (Array.isArray(result)) {
+        // The raw body only when it didn't parse, to show what is wrong with it
+        result.forEach(({ body, ...letter }) =>
+            print(
+                JSON.stringify({
+                    ...letter,
+                    sentAt: new Date(letter.sentAt).toISOString(),
+                    body: letter.message ? undefined : body,
+                }),
+            ),
+        );
+    } else {
+        print(JSON.stringify(result, null, 2));
+    }
+    return 0;
+}
+
+async function main() {
+    try {
+        process.exitCode = await dlqCli(getDeadLetterAdmin(), process.argv.slice(2), console.log, deadTokensRewrite);
+    } finally {
+        const redis = getRedis();
+        if (redis.status === 'ready') {
+            await redis.quit();
+        }
+    }
+}
+
+if (require.main === module) {
+    main().catch((err) => {
+        console.error(err);
+        process.exitCode = 1;
+    });
+}
@@ -0,0 +1,296 @@
+import { deadTokensKey } from './deadtokens';
+import type { MessageType, NotificationMessage } from './message';
+import { parseMessage } from './message';
+import type { RedisClient } from './redis';
+import { FAILURE_CATEGORY_ATTRIBUTE, FAILURE_REASON_ATTRIBUTE, SOURCE_MESSAGE_ID_ATTRIBUTE } from './requeue';
+import type { QueueMessage, SqsQueueClient } from './sqs';
+import { log } from './logger';
+
+/**
+ * A message sitting in the dead-letter queue.
+ */
+export interface DeadLetter {
+    messageId: string;
+    body: string;
+    /** Parsed payload, undefined when the body is not a valid message. */
+    message?: NotificationMessage;
+    /** ErrorCategory the worker dead-lettered it for; unset when the redrive policy moved it. */
+    category?: string;
+    reason?: string;
+    /** Message id it had on the main queue, when the worker dead-lettered it. */
+    sourceMessageId?: string;
+    /** Epoch milliseconds at which it was sent. */
+    sentAt: number;
+    receiveCount: number;
+}
+
+/**
+ * Every set field must match.
+ */
+export interface DeadLetterFilter {
+    ids?: string[];
+    type?: MessageType;
+    topic?: string;
+    category?: string;
+    /** Only messages sent at least this many seconds ago. */
+    minAgeSeconds?: number;
+    /** Only messages sent at most this many seconds ago. */
+    maxAgeSeconds?: number;
+}
+
+/**
+ * Change a message before it is redriven; resolve undefined to drop it instead.
+ */
+export type Rewrite = (
+    message: NotificationMessage,
+) => Promise<NotificationMessage | undefined> | NotificationMessage | undefined;
+
+export interface RedriveOptions {
+    rewrite?: Rewrite;
+    /** Redrive at most this many matching messages. */
+    limit?: number;
+    /** Report what would happen without sending or deleting anything. */
+    dryRun?: boolean;
+}
+
+export interface RedriveResult {
+    /** DLQ message ids sent back to the main queue. */
+    redriven: string[];
+    /** DLQ message ids the rewrite left nothing to send for, deleted. */
+    dropped: string[];
+    /** DLQ message ids left in place because their body is not a valid message. */
+    skipped: string[];
+}
+
+export interface DeadLetterAdmin {
+    /** Matching messages, oldest first. They are hidden from other readers for the visibility timeout. */
+    list(filter?: DeadLetterFilter, limit?: number): Promise<DeadLetter[]>;
+    /** Send matching messages back to the main queue, rewritten, and delete them from the DLQ. */
+    redrive(filter?: DeadLetterFilter, options?: RedriveOptions): Promise<RedriveResult>;
+}
+
+export interface DeadLetterAdminOptions {
+    deadLetterQueueUrl: string;
+    mainQueueUrl: string;
+    /** Seconds a scanned message stays hidden before it can be read again (default 30). */
+    visibilityTimeout?: number;
+    now?: () => number;
+}
+
+/**
+ * Messages scanned at most per call, so a list or redrive can't run forever.
+ */
+export const DEFAULT_DEAD_LETTER_LIMIT = 100;
+
+export function toDeadLetter(raw: QueueMessage): DeadLetter {
+    let message: NotificationMessage | undefined;
+    try {
+        message = parseMessage(raw.body);
+    } catch {
+        message = undefined;
+    }
+
+    return {
+        messageId: raw.messageId,
+        body: raw.body,
+        message,
+        category: raw.messageAttributes[FAILURE_CATEGORY_ATTRIBUTE],
+        reason: raw.messageAttributes[FAILURE_REASON_ATTRIBUTE],
+        sourceMessageId: raw.messageAttributes[SOURCE_MESSAGE_ID_ATTRIBUTE],
+        sentAt: raw.sentTimestamp,
+        receiveCount: raw.receiveCount,
+    };
+}
+
+export function matchesFilter(letter: DeadLetter, filter: DeadLetterFilter, now = Date.now()): boolean {
+    const ageSeconds = (now - letter.sentAt) / 1000;
+    return (
+        (filter.ids === undefined || filter.ids.includes(letter.messageId)) &&
+        (filter.type === undefined || letter.message?.type === filter.type) &&
+        (filter.topic === undefined || (letter.message?.type === 'topic' && letter.message.topic === filter.topic)) &&
+        (filter.category === undefined || letter.category === filter.category) &&
+        (filter.minAgeSeconds === undefined || ageSeconds >= filter.minAgeSeconds) &&
+        (filter.maxAgeSeconds === undefined || ageSeconds <= filter.maxAgeSeconds)
+    );
+}
+
+/**
+ * Rewrite removing `tokens` from `tokens` messages, dropping the messages left without any.
+ */
+export function withoutTokens(tokens: Iterable<string>): Rewrite {
+    const removed = new Set(tokens);
+    return (message) => {
+        if (message.type !== 'tokens') {
+            return message;
+        }
+        const kept = message.tokens.filter((token) => !removed.has(token));
+        if (kept.length === 0) {
+            return undefined;
+        }
+        const rewritten = { ...message, tokens: kept };
+        if (message.tokenTimeZones) {
+            rewritten.tokenTimeZones = Object.fromEntries(
+                Object.entries(message.tokenTimeZones).filter(([token]) => !removed.has(token)),
+            );
+        }
+        return rewritten;
+    };
+}
+
+/**
+ * Rewrite removing the tokens the Redis dead-token sink recorded for Firebase project `app`.
+ */
+export function withoutDeadTokens(redis: RedisClient, app: string): Rewrite {
+    return async (message) => {
+        if (message.type !== 'tokens') {
+            return message;
+        }
+        const dead = await redis.smismember(deadTokensKey(app), ...message.tokens);
+        return withoutTokens(message.tokens.filter((_, i) => dead[i] === 1))(message);
+    };
+}
+
+/**
+ * Apply `rewrites` in turn, stopping at the first one that drops the message.
+ */
+export function chainRewrites(rewrites: Rewrite[]): Rewrite {
+    return async (message) => {
+        let current: NotificationMessage | undefined = message;
+        for (const rewrite of rewrites) {
+            if (current === undefined) {
+                break;
+            }
+            current = await rewrite(current);
+        }
+        return current;
+    };
+}
+
+/**
+ * List and redrive the dead-letter queue. Reading an SQS queue means receiving from it: scanned
+ * messages that aren't deleted reappear after `visibilityTimeout`.
+ */
+export function deadLetterAdmin(sqs: SqsQueueClient, options: DeadLetterAdminOptions): DeadLetterAdmin {
+    const { deadLetterQueueUrl, mainQueueUrl, visibilityTimeout = 30, now = Date.now } = options;
+
+    // Visit up to `limit` matching messages; each message is visited once even if it reappears
+    const scan = async (
+        filter: DeadLetterFilter,
+        limit: number,
+        visit: (letter: DeadLetter, raw: QueueMessage) => Promise<void>,
+    ) => {
+        const seen = new Set<string>();
+        let matched = 0;
+
+        while (matched < limit) {
+            const batch = await sqs.receiveMessages({
+                queueUrl: deadLetterQueueUrl,
+                maxMessages: 10,
+                visibilityTimeout,
+                waitTimeSeconds: 1,
+            });
+            const fresh = batch.filter((raw) => !seen.has(raw.messageId));
+            if (fresh.length === 0) {
+                return;
+            }
+
+            for (const raw of fresh) {
+                seen.add(raw.messageId);
+                const letter = toDeadLetter(raw);
+                if (matched < limit && matchesFilter(letter, filter, now())) {
+                    matched++;
+                    await visit(letter, raw);
+                }
+            }
+        }
+    };
+
+    return {
+        async list(filter = {}, limit = DEFAULT_DEAD_LETTER_LIMIT) {
+            const letters: DeadLetter[] = [];
+            await scan(filter, limit, async (letter) => {
+                letters.push(letter);
+            });
+            return letters.sort((a, b) => a.sentAt - b.sentAt);
+        },
+
+        async redrive(filter = {}, { rewrite, limit = DEFAULT_DEAD_LETTER_LIMIT, dryRun = false } = {}) {
+            const result: RedriveResult = { redriven: [], dropped: [], skipped: [] };
+
+            await scan(filter, limit, async (letter, raw) => {
+                if (!letter.message) {
+                    result.skipped.push(letter.messageId);
+                    return;
+                }
+
+                const message = rewrite ? await rewrite(letter.message) : letter.message;
+                if (!dryRun) {
+                    if (message) {
+                        await sqs.sendMessage({
+                            queueUrl: mainQueueUrl,
+                            body: rewrite ? JSON.stringify(message) : letter.body,
+                        });
+                    }
+                    await sqs.deleteMessage(deadLetterQueueUrl, raw.receiptHandle);
+                }
+                (message ? result.redriven : result.dropped).push(letter.messageId);
+            });
+
+            log.info('Redrove dead letters', {
+                dryRun,
+                redriven: result.redriven.length,
+                dropped: result.dropped.length,
+                skipped: result.skipped.length,
+            });
+            return result;
+        },
+    };
+}
+
+/**
+ * One list or redrive run, as the DLQ Lambda receives it and the CLI builds it from its flags.
+ */
+export interface DeadLetterCommand {
+    action: 'list' | 'redrive';
+    filter?: DeadLetterFilter;
+    limit?: number;
+    dryRun?: boolean;
+    /** Tokens to remove from `tokens` messages before redriving. */
+    dropTokens?: string[];
+    /** Remove the tokens the dead-token sink recorded before redriving. */
+    dropDeadTokens?: boolean;
+}
+
+/**
+ * Run `command` against `admin`. `deadTokens` builds the rewrite `dropDeadTokens` needs.
+ */
+export async function runDeadLetterCommand(
+    admin: DeadLetterAdmin,
+    command: DeadLetterCommand,
+    deadTokens?: () => Promise<Rewrite>,
+): Promise<DeadLetter[] | RedriveResult> {
+    const { action, filter = {}, limit, dryRun, dropTokens = [], dropDeadTokens = false } = command;
+    if (action === 'list') {
+        return admin.list(filter, limit);
+    }
+    if (action !== 'redrive') {
+        throw new Error(`Unknown dead-letter action: ${action}`);
+    }
+
+    const rewrites: Rewrite[] = [];
+    if (dropTokens.length > 0) {
+        rewrites.push(withoutTokens(dropTokens));
+    }
+    if (dropDeadTokens) {
+        if (!deadTokens) {
+            throw new Error('Dropping dead tokens needs the Redis dead-token sink');
+        }
+        rewrites.push(await deadTokens());
+    }
+
+    return admin.redrive(filter, {
+        rewrite: rewrites.length > 0 ? chainRewrites(rewrites) : undefined,
+        limit,
+        dryRun,
+    });
+}
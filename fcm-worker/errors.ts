@@ -0,0 +1,116 @@
+import { ReplyError } from 'ioredis';
+import { isRedisUnavailable } from './degraded';
+import { classifySendError } from './fanout';
+import { FcmError } from './fcm';
+
+/**
+ * Why processing a record failed:
+ *  - validation: the record itself is wrong, redelivering it can never succeed
+ *  - throttled: a limiter or another invocation held it back, it will go through later
+ *  - transient: FCM (or the network to it) failed in a way worth retrying
+ *  - permanent: FCM rejected the message for good
+ *  - infrastructure: Redis, SQS or the worker's own configuration failed
+ */
+export type ErrorCategory = 'validation' | 'throttled' | 'transient' | 'permanent' | 'infrastructure';
+
+/**
+ * What happens to a failed record: redelivered by SQS, never retried (kept in the DLQ when there is one),
+ * or moved to the DLQ now.
+ */
+export type ErrorDisposition = 'retry' | 'drop' | 'dead-letter';
+
+/**
+ * Deliveries (`ApproximateReceiveCount`) a record gets per category before it is dead-lettered.
+ */
+export type RetryBudgets = Record<'throttled' | 'transient' | 'infrastructure', number>;
+
+export class WorkerError extends Error {
+    readonly category: ErrorCategory;
+    readonly cause?: unknown;
+
+    constructor(message: string, category: ErrorCategory, cause?: unknown) {
+        super(message);
+        this.name = 'WorkerError';
+        this.category = category;
+        this.cause = cause;
+    }
+}
+
+export class ValidationError extends WorkerError {
+    constructor(message: string, cause?: unknown) {
+        super(message, 'validation', cause);
+        this.name = 'ValidationError';
+    }
+}
+
+export class ThrottledError extends WorkerError {
+    /** Epoch seconds at which the limiter that rejected lets it through again, when known. */
+    readonly decaysAt?: number;
+
+    constructor(message: string, decaysAt?: number) {
+        super(message, 'throttled');
+        this.name = 'ThrottledError';
+        this.decaysAt = decaysAt;
+    }
+}
+
+export class TransientUpstreamError extends WorkerError {
+    constructor(message: string, cause?: unknown) {
+        super(message, 'transient', cause);
+        this.name = 'TransientUpstreamError';
+    }
+}
+
+export class PermanentUpstreamError extends WorkerError {
+    constructor(message: string, cause?: unknown) {
+        super(message, 'permanent', cause);
+        this.name = 'PermanentUpstreamError';
+    }
+}
+
+export class InfrastructureError extends WorkerError {
+    constructor(message: string, cause?: unknown) {
+        super(message, 'infrastructure', cause);
+        this.name = 'InfrastructureError';
+    }
+}
+
+/**
+ * Category of any error thrown while processing a record. FCM errors follow the per-token outcomes,
+ * except a rejected access token, which is the worker's credentials; unknown errors count as transient.
+ */
+export function classifyError(err: unknown): ErrorCategory {
+    if (err instanceof WorkerError) {
+        return err.category;
+    }
+    if (err instanceof FcmError) {
+        if (err.status === 401) {
+            return 'infrastructure';
+        }
+        const outcome = classifySendError(err);
+        return outcome === 'quota-exceeded' || outcome === 'unavailable' ? 'transient' : 'permanent';
+    }
+    // A failing script is a bug or a misconfigured server, not the message's fault
+    if (err instanceof ReplyError || isRedisUnavailable(err)) {
+        return 'infrastructure';
+    }
+    return 'transient';
+}
+
+/**
+ * Decide what happens to a record that failed with `category` on its `receiveCount`-th delivery.
+ */
+export function errorDisposition(
+    category: ErrorCategory,
+    receiveCount: number,
+    budgets: RetryBudgets,
+): ErrorDisposition {
+    switch (category) {
+        case 'validation':
+            return 'drop';
+        case 'permanent':
+            return 'dead-letter';
+        default:
+            return receiveCount < budgets[category] ? 'retry' : 'dead-letter';
+    }
+}
@@ -0,0 +1,211 @@
+import { FcmError } from './fcm';
+import type { DurationAcquireResult, DurationLimiterBuilder, LimiterAnswer } from './throttle';
+
+/** FCM's legacy multicast cap, kept as the default chunk size. */
+export const DEFAULT_CHUNK_SIZE = 500;
+export const DEFAULT_CONCURRENCY = 10;
+
+export type TokenOutcome =
+    | 'success'
+    | 'unregistered'
+    | 'invalid-argument'
+    | 'quota-exceeded'
+    | 'unavailable'
+    | 'throttled'
+    | 'failed';
+
+export interface TokenResult {
+    token: string;
+    outcome: TokenOutcome;
+    /** Message name returned by FCM on success. */
+    name?: string;
+    /** FCM error code or error message on failure. */
+    error?: string;
+    /** FCM's `Retry-After` in seconds, when the failure came with one. */
+    retryAfter?: number;
+}
+
+export interface FanOutResult {
+    results: TokenResult[];
+    counts: Record<TokenOutcome, number>;
+    /** Latest `decaysAt` reported by a rejecting limiter, when some tokens were throttled. */
+    throttledUntil?: number;
+}
+
+/**
+ * `R` is the result type of the limiter's builder, e.g. CompositeAcquireResult for `throttleAll()`.
+ */
+export interface FanOutOptions<R extends DurationAcquireResult = DurationAcquireResult> {
+    /** Maximum number of tokens per chunk. */
+    chunkSize?: number;
+    /** Maximum number of sends in flight within a chunk. */
+    concurrency?: number;
+    /**
+     * Builds the limiter used before sending. Called once per send (with the token) or once
+     * per chunk depending on `limitPer`. When a limiter rejects, the remaining tokens are not
+     * sent and are reported as `throttled`.
+     */
+    limiter?: (token?: string) => DurationLimiterBuilder<R>;
+    /**
+     * Rejections that only concern the token being sent (e.g. a per-device rule): that token
+     * is reported as `throttled` and the fan-out continues with the others.
+     */
+    tokenScoped?: (info: LimiterAnswer<R>) => boolean;
+    /** Consume one limiter slot per actual send (default) or per chunk. */
+    limitPer?: 'send' | 'chunk';
+    /**
+     * Called with each failed send's result before the next acquire, e.g. to pause the limiter on
+     * FCM's `Retry-After`. It must not throw.
+     */
+    onSendError?: (result: TokenResult) => Promise<void> | void;
+    /** Called with every limiter answer, allowed or not, e.g. to record the remaining permits. */
+    onAcquire?: (info: LimiterAnswer<R>) => void;
+}
+
+/**
+ * Outcomes worth redelivering the message for.
+ */
+export const RETRYABLE_OUTCOMES: readonly TokenOutcome[] = ['quota-exceeded', 'unavailable', 'throttled'];
+
+export function chunk<T>(items: readonly T[], size: number): T[][] {
+    if (size < 1) {
+        throw new Error('chunk size must be at least 1');
+    }
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += size) {
+        chunks.push(items.slice(i, i + size));
+    }
+    return chunks;
+}
+
+/**
+ * Map a send error to a per-token outcome. Errors that are not FcmError
+ * (DNS, socket resets...) are treated as the service being unavailable.
+ */
+export function classifySendError(err: unknown): TokenOutcome {
+    if (!(err instanceof FcmError)) {
+        return 'unavailable';
+    }
+
+    switch (err.code) {
+        case 'UNREGISTERED':
+            return 'unregistered';
+        case 'INVALID_ARGUMENT':
+            return 'invalid-argument';
+        case 'QUOTA_EXCEEDED':
+        case 'RESOURCE_EXHAUSTED':
+            return 'quota-exceeded';
+        case 'UNAVAILABLE':
+        case 'INTERNAL':
+            return 'unavailable';
+    }
+
+    if (err.status === 429) {
+        return 'quota-exceeded';
+    }
+    if (err.status >= 500) {
+        return 'unavailable';
+    }
+    return 'failed';
+}
+
+const emptyCounts = (): Record<TokenOutcome, number> => ({
+    success: 0,
+    unregistered: 0,
+    'invalid-argument': 0,
+    'quota-exceeded': 0,
+    unavailable: 0,
+    throttled: 0,
+    failed: 0,
+});
+
+/**
+ * Send to every token in bounded chunks with limited concurrency and aggregate the per-token outcomes.
+ * Never throws for a single token failure; inspect `counts` / `results` instead.
+ */
+export async function fanOut<R extends DurationAcquireResult = DurationAcquireResult>(
+    tokens: readonly string[],
+    send: (token: string) => Promise<string>,
+    options: FanOutOptions<R> = {},
+): Promise<FanOutResult> {
+    const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    const concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+    const limitPer = options.limitPer ?? 'send';
+
+    const results: TokenResult[] = tokens.map((token) => ({ token, outcome: 'throttled' }));
+    let throttled = false;
+    let throttledUntil: number | undefined;
+
+    // 'rejected' means nothing else should be sent, 'skipped' only concerns this token
+    const acquire = async (work: () => Promise<void>, token?: string): Promise<'ran' | 'skipped' | 'rejected'> => {
+        if (!options.limiter) {
+            await work();
+            return 'ran';
+        }
+        return options.limiter(token).then(
+            async (info): Promise<'ran'> => {
+                options.onAcquire?.(info);
+                await work();
+                return 'ran';
+            },
+            (info) => {
+                options.onAcquire?.(info);
+                throttledUntil = Math.max(throttledUntil ?? 0, info.decaysAt);
+                return options.tokenScoped?.(info) ? 'skipped' : 'rejected';
+            },
+        );
+    };
+
+    const sendOne = async (index: number) => {
+        const token = tokens[index];
+        try {
+            results[index] = { token, outcome: 'success', name: await send(token) };
+        } catch (err) {
+            results[index] = {
+                token,
+                outcome: classifySendError(err),
+                error: err instanceof FcmError ? err.code : (err as Error).message,
+                ...(err instanceof FcmError && err.retryAfter !== undefined && { retryAfter: err.retryAfter }),
+            };
+            await options.onSendError?.(results[index]);
+        }
+    };
+
+    const runChunk = async (indexes: number[]) => {
+        let next = 0;
+        const worker = async () => {
+            while (!throttled && next < indexes.length) {
+                const index = indexes[next++];
+                if (limitPer === 'chunk') {
+                    await sendOne(index);
+                } else if ((await acquire(() => sendOne(index), tokens[index])) === 'rejected') {
+                    throttled = true;
+                }
+            }
+        };
+        await Promise.all(Array.from({ length: Math.min(concurrency, indexes.length) }, worker));
+    };
+
+    for (const indexes of chunk(
+        tokens.map((_, i) => i),
+        chunkSize,
+    )) {
+        if (throttled) {
+            break;
+        }
+        if (limitPer === 'chunk') {
+            if ((await acquire(() => runChunk(indexes))) !== 'ran') {
+                throttled = true;
+            }
+        } else {
+            await runChunk(indexes);
+        }
+    }
+
+    const counts = emptyCounts();
+    for (const result of results) {
+        counts[result.outcome]++;
+    }
+
+    return { results, counts, throttledUntil };
+}
@@ -0,0 +1,293 @@
+import { createSign } from 'crypto';
+
+export const FCM_BASE_URL = 'https://fcm.googleapis.com';
+export const GOOGLE_TOKEN_URL = 'https://oauth2.googleapis.com/token';
+export const FCM_SCOPE = 'https://www.googleapis.com/auth/firebase.messaging';
+export const DEFAULT_FCM_TIMEOUT_MS = 10000;
+
+/**
+ * Subset of a Google service-account JSON key used to mint access tokens.
+ */
+export interface ServiceAccount {
+    project_id: string;
+    client_email: string;
+    private_key: string;
+    token_uri?: string;
+}
+
+/**
+ * Where the service account comes from (env var, secret, test fixture...).
+ */
+export interface CredentialsSource {
+    load(): Promise<ServiceAccount>;
+}
+
+export interface FcmNotification {
+    title?: string;
+    body?: string;
+    image?: string;
+}
+
+/**
+ * FCM HTTP v1 `Message`. Exactly one of `topic`, `token` or `condition` must be set.
+ */
+export interface FcmMessage {
+    topic?: string;
+    token?: string;
+    condition?: string;
+    notification?: FcmNotification;
+    data?: Record<string, string>;
+    android?: Record<string, unknown>;
+    apns?: Record<string, unknown>;
+    webpush?: Record<string, unknown>;
+}
+
+export interface FcmClientOptions {
+    credentials: CredentialsSource;
+    /** Override for the FCM endpoint, e.g. a local stub server in tests. */
+    baseUrl?: string;
+    /** Override for the OAuth2 token endpoint. Defaults to the service account `token_uri`. */
+    tokenUrl?: string;
+    /** Firebase project to send to. Defaults to the service account's own project. */
+    projectId?: string;
+    /** Bound on each OAuth2 and FCM request, response body included. */
+    timeoutMs?: number;
+}
+
+/**
+ * Error returned by the FCM or OAuth2 endpoints.
+ * `code` is the FCM `errorCode` (e.g. UNREGISTERED) when present, otherwise the google.rpc status.
+ */
+export class FcmError extends Error {
+    readonly status: number;
+    readonly code: string;
+    readonly retryAfter?: number;
+
+    constructor(message: string, status: number, code: string, retryAfter?: number) {
+        super(message);
+        this.name = 'FcmError';
+        this.status = status;
+        this.code = code;
+        this.retryAfter = retryAfter;
+    }
+}
+
+/**
+ * Read the service account JSON from an environment variable.
+ */
+export function envCredentials(
+    variable = 'FCM_SERVICE_ACCOUNT',
+    env: NodeJS.ProcessEnv = process.env,
+): CredentialsSource {
+    return {
+        async load() {
+            const raw = env[variable];
+            if (!raw) {
+                throw new Error(`${variable} is not set`);
+            }
+            return JSON.parse(raw) as ServiceAccount;
+        },
+    };
+}
+
+/**
+ * Use a service account already loaded, e.g. from the worker's configuration.
+ */
+export function staticCredentials(account: ServiceAccount): CredentialsSource {
+    return { load: async () => account };
+}
+
+const base64url = (input: string | Buffer) => Buffer.from(input).toString('base64url');
+
+/**
+ * Build a signed RS256 JWT assertion for the OAuth2 jwt-bearer grant.
+ */
+export function signAssertion(account: ServiceAccount, audience: string, nowSeconds: number): string {
+    const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+    const claims = base64url(
+        JSON.stringify({
+            iss: account.client_email,
+            scope: FCM_SCOPE,
+            aud: audience,
+            iat: nowSeconds,
+            exp: nowSeconds + 3600,
+        }),
+    );
+
+    const signer = createSign('RSA-SHA256');
+    signer.update(`${header}.${claims}`);
+
+    return `${header}.${claims}.${base64url(signer.sign(account.private_key))}`;
+}
+
+async function toFcmError(res: Response): Promise<FcmError> {
+    const text = await res.text();
+    const retryAfterHeader = res.headers.get('retry-after');
+    const retryAfter = retryAfterHeader ? Number(retryAfterHeader) || undefined : undefined;
+
+    let message = text || res.statusText;
+    let code = String(res.status);
+
+    try {
+        const parsed = JSON.parse(text);
+        const error = parsed?.error;
+        if (typeof error === 'string') {
+            // OAuth2 token endpoint: { error, error_description }
+            code = error;
+            message = parsed.error_description ?? error;
+        } else if (error) {
+            const details: Array<{ errorCode?: string }> = error.details ?? [];
+            code = details.find((d) => d.errorCode)?.errorCode ?? error.status ?? code;
+            message = error.message ?? message;
+        }
+    } catch {
+        // Not JSON, keep the raw body
+    }
+
+    return new FcmError(message, res.status, code, retryAfter);
+}
+
+/**
+ * `fetch()` bounded by `timeoutMs` until `read` is done with the response. A timeout becomes a retryable
+ * FcmError, so a stalled connection fails the send instead of holding the batch until the Lambda times out.
+ */
+async function timedFetch<T>(
+    url: string,
+    init: RequestInit,
+    timeoutMs: number,
+    read: (res: Response) => Promise<T>,
+): Promise<T> {
+    try {
+        return await read(await fetch(url, { ...init, signal: AbortSignal.timeout(timeoutMs) }));
+    } catch (err) {
+        // Aborts reject with a DOMException, which is not an Error subclass in every runtime
+        const name = (err as { name?: unknown } | undefined)?.name;
+        if (name === 'TimeoutError' || name === 'AbortError') {
+            throw new FcmError(`${new URL(url).host} did not respond within ${timeoutMs}ms`, 504, 'UNAVAILABLE');
+        }
+        throw err;
+    }
+}
+
+export class FcmClient {
+    private readonly credentials: CredentialsSource;
+    private readonly baseUrl: string;
+    private readonly tokenUrl?: string;
+    private readonly projectId?: string;
+    private readonly timeoutMs: number;
+
+    private account?: ServiceAccount;
+    private accessToken?: string;
+    private accessTokenExpiresAt = 0;
+    /** The token exchange in flight, shared by every send waiting for a token. */
+    private accessTokenRequest?: Promise<string>;
+
+    constructor(options: FcmClientOptions) {
+        this.credentials = options.credentials;
+        this.baseUrl = (options.baseUrl ?? FCM_BASE_URL).replace(/\/+$/, '');
+        this.tokenUrl = options.tokenUrl;
+        this.projectId = options.projectId;
+        this.timeoutMs = options.timeoutMs ?? DEFAULT_FCM_TIMEOUT_MS;
+    }
+
+    private async getAccount(): Promise<ServiceAccount> {
+        if (!this.account) {
+            this.account = await this.credentials.load();
+        }
+        return this.account;
+    }
+
+    /**
+     * Firebase project messages are sent to: the configured one or the service account's own.
+     */
+    async getProjectId(): Promise<string> {
+        return this.projectId ?? (await this.getAccount()).project_id;
+    }
+
+    /**
+     * Return a cached OAuth2 access token, refreshing it one minute before it expires.
+     * The client is meant to live at module scope so the token survives warm invocations;
+     * concurrent sends share one exchange.
+     */
+    async getAccessToken(): Promise<string> {
+        if (this.accessToken && Date.now() < this.accessTokenExpiresAt) {
+            return this.accessToken;
+        }
+        if (!this.accessTokenRequest) {
+            this.accessTokenRequest = this.requestAccessToken().finally(() => {
+                this.accessTokenRequest = undefined;
+            });
+        }
+        return this.accessTokenRequest;
+    }
+
+    private async requestAccessToken(): Promise<string> {
+        const account = await this.getAccount();
+        const tokenUrl = this.tokenUrl ?? account.token_uri ?? GOOGLE_TOKEN_URL;
+        const nowSeconds = Math.floor(Date.now() / 1000);
+
+        const init: RequestInit = {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+            body: new URLSearchParams({
+                grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+                assertion: signAssertion(account, tokenUrl, nowSeconds),
+            }).toString(),
+        };
+        const json = await timedFetch(tokenUrl, init, this.timeoutMs, async (res) => {
+            if (!res.ok) {
+                throw await toFcmError(res);
+            }
+            return (await res.json()) as { access_token: string; expires_in?: number };
+        });
+        const expiresIn = json.expires_in ?? 3600;
+
+        this.accessToken = json.access_token;
+        this.accessTokenExpiresAt = Date.now() + Math.max(0, expiresIn - 60) * 1000;
+
+        return this.accessToken;
+    }
+
+    /**
+     * Send a single message via `projects/{id}/messages:send`.
+     * Resolves with the message name returned by FCM.
+     */
+    async send(message: FcmMessage): Promise<string> {
+        const projectId = await this.getProjectId();
+        const accessToken = await this.getAccessToken();
+
+        const init: RequestInit = {
+            method: 'POST',
+            headers: {
+                Authorization: `Bearer ${accessToken}`,
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ message }),
+        };
+        return timedFetch(
+            `${this.baseUrl}/v1/projects/${projectId}/messages:send`,
+            init,
+            this.timeoutMs,
+            async (res) => {
+                if (!res.ok) {
+                    if (res.status === 401) {
+                        // Force a new token on the next call
+                        this.accessToken = undefined;
+                    }
+                    throw await toFcmError(res);
+                }
+
+                const json = (await res.json()) as { name: string };
+                return json.name;
+            },
+        );
+    }
+
+    sendToTopic(topic: string, notification: FcmNotification): Promise<string> {
+        return this.send({ topic, notification });
+    }
+
+    sendToToken(token: string, notification: FcmNotification): Promise<string> {
+        return this.send({ token, notification });
+    }
+}
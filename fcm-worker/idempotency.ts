@@ -0,0 +1,113 @@
+import type { SQSRecord } from 'aws-lambda';
+import type { NotificationMessage } from './message';
+import type { RedisClient } from './redis';
+import { requeueCount } from './requeue';
+
+/**
+ * Outcome of claiming a message:
+ *  - acquired: nobody handled it yet, deliver it
+ *  - in-progress: another invocation is delivering it (or crashed less than a lease ago)
+ *  - completed: it was delivered already, acknowledge it without sending
+ */
+export type IdempotencyStatus = 'acquired' | 'in-progress' | 'completed';
+
+export interface IdempotencyStore {
+    /**
+     * Claim `key` for `owner` during `leaseSeconds`, after which a crashed delivery can be retried.
+     */
+    begin(key: string, owner: string, leaseSeconds: number): Promise<IdempotencyStatus>;
+    /**
+     * Record `key` as delivered. Resolves false when `owner` no longer holds the claim.
+     */
+    complete(key: string, owner: string): Promise<boolean>;
+    /**
+     * Drop the claim so a redelivery retries. Resolves false when `owner` no longer holds it.
+     */
+    release(key: string, owner: string): Promise<boolean>;
+}
+
+const COMPLETED = 'completed';
+const IN_PROGRESS_PREFIX = 'in-progress:';
+
+const IDEMPOTENCY_BEGIN_LUA = `
+-- KEYS[1]  : idempotency key
+-- ARGV[1]  : in-progress marker of the caller
+-- ARGV[2]  : lease (seconds before a crashed delivery can be retried)
+-- ARGV[3]  : completed marker
+
+-- Return: an IdempotencyStatus
+local current = redis.call('GET', KEYS[1])
+if current == ARGV[3] then
+  return 'completed'
+elseif current then
+  return 'in-progress'
+end
+redis.call('SET', KEYS[1], ARGV[1], 'EX', ARGV[2])
+return 'acquired'
+`;
+
+const IDEMPOTENCY_FINISH_LUA = `
+-- KEYS[1]  : idempotency key
+-- ARGV[1]  : in-progress marker of the caller
+-- ARGV[2]  : completed marker to store, or '' to release the claim
+-- ARGV[3]  : completed TTL in seconds
+
+-- Return: 1 when the caller held the claim, 0 otherwise
+if redis.call('GET', KEYS[1]) ~= ARGV[1] then
+  return 0
+end
+if ARGV[2] == '' then
+  redis.call('DEL', KEYS[1])
+else
+  redis.call('SET', KEYS[1], ARGV[2], 'EX', ARGV[3])
+end
+return 1
+`;
+
+export const idempotencyRedisKey = (key: string) => `fcm:idempotency:${key}`;
+
+/**
+ * Keep claims and completions in Redis; completed keys are remembered for `ttlSeconds`.
+ */
+export function redisIdempotencyStore(redis: RedisClient, ttlSeconds = 86400): IdempotencyStore {
+    const finish = async (key: string, owner: string, completed: string) =>
+        (await redis.eval(
+            IDEMPOTENCY_FINISH_LUA,
+            1,
+            idempotencyRedisKey(key),
+            IN_PROGRESS_PREFIX + owner,
+            completed,
+            ttlSeconds,
+        )) === 1;
+
+    return {
+        async begin(key, owner, leaseSeconds) {
+            return (await redis.eval(
+                IDEMPOTENCY_BEGIN_LUA,
+                1,
+                idempotencyRedisKey(key),
+                IN_PROGRESS_PREFIX + owner,
+                Math.max(1, Math.ceil(leaseSeconds)),
+                COMPLETED,
+            )) as IdempotencyStatus;
+        },
+
+        complete(key, owner) {
+            return finish(key, owner, COMPLETED);
+        },
+
+        release(key, owner) {
+            return finish(key, owner, '');
+        },
+    };
+}
+
+/**
+ * The message's `idempotencyKey`, else the SQS message id. Requeued copies get their own key
+ * (suffixed with the requeue count) since they carry the part of the message that is still to send.
+ */
+export function idempotencyKey(record: SQSRecord, message: NotificationMessage): string {
+    const key = message.idempotencyKey ?? record.messageId;
+    const count = requeueCount(record);
+    return count > 0 ? `${key}:requeue:${count}` : key;
+}
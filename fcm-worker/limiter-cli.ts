@@ -0,0 +1,56 @@
+import { getRedis } from './app';
+import { LimiterAdmin, limiterAdmin } from './throttle';
+
+const USAGE = `Usage: npm run limiter -- <command> [arg]
+
+Commands (against REDIS_URL):
+  list [prefix]   List limiter keys, e.g. "list {fcm_throttle_key}"
+  inspect <name>  Show a limiter's count, window and remaining permits
+  reset <name>    Delete a limiter so the next acquire starts a fresh window`;
+
+/**
+ * Run one CLI command and resolve with the process exit code.
+ */
+export async function limiterCli(
+    admin: LimiterAdmin,
+    [command, arg]: string[],
+    print: (line: string) => void = console.log,
+): Promise<number> {
+    switch (command) {
+        case 'list':
+            (await admin.list(arg)).forEach((name) => print(name));
+            return 0;
+        case 'inspect':
+            if (!arg) {
+                break;
+            }
+            print(JSON.stringify((await admin.inspect(arg)) ?? { name: arg, exists: false }, null, 2));
+            return 0;
+        case 'reset':
+            if (!arg) {
+                break;
+            }
+            print((await admin.reset(arg)) ? `Reset ${arg}` : `${arg} does not exist`);
+            return 0;
+    }
+
+    print(USAGE);
+    return 1;
+}
+
+async function main() {
+    const redis = getRedis();
+    await redis.connect();
+    try {
+        process.exitCode = await limiterCli(limiterAdmin(redis), process.argv.slice(2));
+    } finally {
+        await redis.quit();
+    }
+}
+
+if (require.main === module) {
+    main().catch((err) => {
+        console.error(err);
+        process.exitCode = 1;
+    });
+}
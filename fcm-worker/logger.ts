@@ -0,0 +1,142 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash } from 'crypto';
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Writes one JSON object per line: `timestamp`, `level`, `message`, the context fields
+ * (e.g. `awsRequestId`, `messageId`, `correlationId`), then the call's own fields, redacted.
+ */
+export interface Logger {
+    debug(message: string, fields?: LogFields): void;
+    info(message: string, fields?: LogFields): void;
+    warn(message: string, fields?: LogFields): void;
+    error(message: string, fields?: LogFields): void;
+    /** Logger adding `fields` to every line. */
+    child(fields: LogFields): Logger;
+}
+
+export interface LoggerOptions {
+    /** Lines below this level are skipped (default info). */
+    level?: LogLevel;
+    /** Where each line goes (default stdout, bypassing the Lambda runtime's own formatting). */
+    write?: (line: string) => void;
+    now?: () => number;
+}
+
+/** Fields whose strings are device tokens: hashed so lines can be correlated without leaking them. */
+const TOKEN_FIELD = /tokens?$/i;
+/** Notification content and raw payloads, never logged. */
+const REDACTED_FIELDS = new Set(['title', 'body', 'image', 'data', 'android', 'apns', 'webpush', 'tokenTimeZones']);
+const REDACTED = '[redacted]';
+const MAX_DEPTH = 6;
+
+/**
+ * Short stable digest of a device token.
+ */
+export function hashToken(token: string): string {
+    return `sha256:${createHash('sha256').update(token).digest('hex').slice(0, 16)}`;
+}
+
+/**
+ * Copy of `value` safe to log: tokens hashed, notification content redacted, errors flattened.
+ */
+export function redact(value: unknown, key = '', depth = 0): unknown {
+    if (REDACTED_FIELDS.has(key) && value !== undefined) {
+        return REDACTED;
+    }
+    if (TOKEN_FIELD.test(key)) {
+        if (typeof value === 'string') {
+            return hashToken(value);
+        }
+        if (Array.isArray(value)) {
+            return value.map((item) => (typeof item === 'string' ? hashToken(item) : redact(item, '', depth + 1)));
+        }
+    }
+    if (value instanceof Error) {
+        const { name, message, stack, ...rest } = value as Error & LogFields;
+        return redact({ name, message, ...rest, stack }, key, depth);
+    }
+    if (value === null || typeof value !== 'object') {
+        return value;
+    }
+    if (depth >= MAX_DEPTH) {
+        return '[truncated]';
+    }
+    if (Array.isArray(value)) {
+        return value.map((item) => redact(item, '', depth + 1));
+    }
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redact(v, k, depth + 1)]));
+}
+
+const context = new AsyncLocalStorage<LogFields>();
+
+/**
+ * Run `fn` with `fields` added to every line logged during it, including from other modules.
+ */
+export function withLogContext<T>(fields: LogFields, fn: () => Promise<T>): Promise<T> {
+    return context.run({ ...context.getStore(), ...fields }, fn);
+}
+
+/**
+ * Add `fields` to the current context, e.g. once the payload is parsed. A no-op outside withLogContext().
+ */
+export function addLogContext(fields: LogFields): void {
+    Object.assign(context.getStore() ?? {}, fields);
+}
+
+const defaults = (): Required<LoggerOptions> => ({
+    level: 'info',
+    write: (line) => process.stdout.write(`${line}\n`),
+    now: Date.now,
+});
+
+const defined = (options: LoggerOptions) =>
+    Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined));
+
+export function createLogger(options: LoggerOptions = {}, fields: LogFields = {}): Logger {
+    return loggerWith({ ...defaults(), ...defined(options) }, fields);
+}
+
+function loggerWith(settings: Required<LoggerOptions>, fields: LogFields): Logger {
+    const emit = (level: LogLevel, message: string, extra: LogFields = {}) => {
+        if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(settings.level)) {
+            return;
+        }
+        const line = {
+            timestamp: new Date(settings.now()).toISOString(),
+            level,
+            message,
+            ...(redact({ ...context.getStore(), ...fields, ...extra }) as LogFields),
+        };
+        try {
+            settings.write(JSON.stringify(line));
+        } catch {
+            // A field that can't be serialized must not fail the record
+            settings.write(JSON.stringify({ timestamp: line.timestamp, level, message }));
+        }
+    };
+
+    return {
+        debug: (message, extra) => emit('debug', message, extra),
+        info: (message, extra) => emit('info', message, extra),
+        warn: (message, extra) => emit('warn', message, extra),
+        error: (message, extra) => emit('error', message, extra),
+        child: (extra) => loggerWith(settings, { ...fields, ...extra }),
+    };
+}
+
+const rootSettings = defaults();
+
+/**
+ * The worker's logger; configureLogger() applies LOG_LEVEL once the config is loaded.
+ */
+export const log: Logger = loggerWith(rootSettings, {});
+
+export function configureLogger(options: LoggerOptions): void {
+    Object.assign(rootSettings, defined(options));
+}
@@ -0,0 +1,318 @@
+import type { FcmMessage } from './fcm';
+import { DeliveryWindow, isValidTimeZone, parseTimeOfDay } from './quiethours';
+import { ValidationError } from './errors';
+
+export const MESSAGE_VERSION = 1;
+
+/** FCM caps message lifetime at 28 days. */
+export const MAX_TTL_SECONDS = 2419200;
+
+const TOPIC_PATTERN = /^[a-zA-Z0-9-_.~%]+$/;
+const MAX_IDEMPOTENCY_KEY_LENGTH = 256;
+const MAX_CORRELATION_ID_LENGTH = 256;
+// An explicit offset is required: the worker's local time zone is meaningless to producers
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+
+export type MessagePriority = 'normal' | 'high';
+
+interface BaseMessage {
+    version: typeof MESSAGE_VERSION;
+    title?: string;
+    body?: string;
+    image?: string;
+    data?: Record<string, string>;
+    android?: Record<string, unknown>;
+    apns?: Record<string, unknown>;
+    webpush?: Record<string, unknown>;
+    /** Time to live in seconds. */
+    ttl?: number;
+    priority?: MessagePriority;
+    collapseKey?: string;
+    /** Identifies the notification across producer retries; the SQS message id is used when absent. */
+    idempotencyKey?: string;
+    /** Producer's id for the request behind the notification, added to every log line about it. */
+    correlationId?: string;
+    /** ISO 8601 timestamp to send at instead of right away. */
+    sendAt?: string;
+    /** Sends outside this window are deferred to when it opens. */
+    deliveryWindow?: DeliveryWindow;
+}
+
+export interface TopicMessage extends BaseMessage {
+    type: 'topic';
+    topic: string;
+}
+
+export interface TokensMessage extends BaseMessage {
+    type: 'tokens';
+    tokens: string[];
+    /** IANA time zone per token, read against `deliveryWindow` instead of its own time zone. */
+    tokenTimeZones?: Record<string, string>;
+}
+
+export interface ConditionMessage extends BaseMessage {
+    type: 'condition';
+    condition: string;
+}
+
+/**
+ * Payload carried in the SQS record body.
+ */
+export type NotificationMessage = TopicMessage | TokensMessage | ConditionMessage;
+
+export type MessageType = NotificationMessage['type'];
+
+export interface FieldError {
+    path: string;
+    message: string;
+}
+
+/**
+ * Thrown when a record body is not a valid NotificationMessage.
+ * This is a permanent failure: redelivering the same body will never succeed.
+ */
+export class MessageValidationError extends ValidationError {
+    readonly errors: FieldError[];
+
+    constructor(errors: FieldError[]) {
+        super(`Invalid notification message: ${errors.map((e) => `${e.path}: ${e.message}`).join('; ')}`);
+        this.name = 'MessageValidationError';
+        this.errors = errors;
+    }
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+
+const isTimeZone = (value: unknown): value is string => isNonEmptyString(value) && isValidTimeZone(value);
+
+/**
+ * Validate an already-parsed payload and return it as a typed NotificationMessage.
+ * Collects every field error instead of stopping at the first one.
+ */
+export function validateMessage(input: unknown): NotificationMessage {
+    if (!isPlainObject(input)) {
+        throw new MessageValidationError([{ path: '$', message: 'must be an object' }]);
+    }
+
+    const errors: FieldError[] = [];
+    const fail = (path: string, message: string) => errors.push({ path, message });
+
+    const version = input.version ?? MESSAGE_VERSION;
+    if (version !== MESSAGE_VERSION) {
+        fail('version', `unsupported version, expected ${MESSAGE_VERSION}`);
+    }
+
+    for (const field of ['title', 'body', 'image', 'collapseKey'] as const) {
+        if (input[field] !== undefined && typeof input[field] !== 'string') {
+            fail(field, 'must be a string');
+        }
+    }
+
+    if (input.title === undefined && input.body === undefined && input.data === undefined) {
+        fail('$', 'must have a title, body or data');
+    }
+
+    if (input.data !== undefined) {
+        if (!isPlainObject(input.data)) {
+            fail('data', 'must be an object');
+        } else {
+            for (const [key, value] of Object.entries(input.data)) {
+                if (typeof value !== 'string') {
+                    fail(`data.${key}`, 'must be a string');
+                }
+            }
+        }
+    }
+
+    for (const field of ['android', 'apns', 'webpush'] as const) {
+        if (input[field] !== undefined && !isPlainObject(input[field])) {
+            fail(field, 'must be an object');
+        }
+    }
+
+    if (input.ttl !== undefined) {
+        const ttl = input.ttl;
+        if (typeof ttl !== 'number' || !Number.isInteger(ttl) || ttl < 0 || ttl > MAX_TTL_SECONDS) {
+            fail('ttl', `must be an integer between 0 and ${MAX_TTL_SECONDS}`);
+        }
+    }
+
+    if (
+        input.idempotencyKey !== undefined &&
+        (!isNonEmptyString(input.idempotencyKey) || input.idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH)
+    ) {
+        fail('idempotencyKey', `must be a non-empty string of at most ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`);
+    }
+
+    if (
+        input.correlationId !== undefined &&
+        (!isNonEmptyString(input.correlationId) || input.correlationId.length > MAX_CORRELATION_ID_LENGTH)
+    ) {
+        fail('correlationId', `must be a non-empty string of at most ${MAX_CORRELATION_ID_LENGTH} characters`);
+    }
+
+    if (
+        input.sendAt !== undefined &&
+        (typeof input.sendAt !== 'string' ||
+            !TIMESTAMP_PATTERN.test(input.sendAt) ||
+            Number.isNaN(Date.parse(input.sendAt)))
+    ) {
+        fail('sendAt', 'must be an ISO 8601 timestamp with a time zone, e.g. 2024-05-01T09:00:00Z');
+    }
+
+    if (input.deliveryWindow !== undefined) {
+        const window = input.deliveryWindow;
+        if (!isPlainObject(window)) {
+            fail('deliveryWindow', 'must be an object');
+        } else {
+            for (const field of ['start', 'end'] as const) {
+                if (typeof window[field] !== 'string' || parseTimeOfDay(window[field] as string) === undefined) {
+                    fail(`deliveryWindow.${field}`, 'must be a time of day as HH:MM');
+                }
+            }
+            if (window.start === window.end) {
+                fail('deliveryWindow', 'start and end must differ');
+            }
+            if (window.timeZone !== undefined && !isTimeZone(window.timeZone)) {
+                fail('deliveryWindow.timeZone', 'must be an IANA time zone, e.g. Asia/Bangkok');
+            }
+        }
+    }
+
+    if (input.priority !== undefined && input.priority !== 'normal' && input.priority !== 'high') {
+        fail('priority', "must be 'normal' or 'high'");
+    }
+
+    switch (input.type) {
+        case 'topic':
+            if (!isNonEmptyString(input.topic) || !TOPIC_PATTERN.test(input.topic)) {
+                fail('topic', 'must be a non-empty string matching [a-zA-Z0-9-_.~%]+');
+            }
+            break;
+        case 'tokens':
+            if (!Array.isArray(input.tokens) || input.tokens.length === 0) {
+                fail('tokens', 'must be a non-empty array');
+            } else {
+                input.tokens.forEach((token, i) => {
+                    if (!isNonEmptyString(token)) {
+                        fail(`tokens[${i}]`, 'must be a non-empty string');
+                    }
+                });
+            }
+            if (input.tokenTimeZones !== undefined) {
+                if (!isPlainObject(input.tokenTimeZones)) {
+                    fail('tokenTimeZones', 'must be an object');
+                } else {
+                    for (const [token, timeZone] of Object.entries(input.tokenTimeZones)) {
+                        if (!isTimeZone(timeZone)) {
+                            fail(`tokenTimeZones.${token}`, 'must be an IANA time zone, e.g. Asia/Bangkok');
+                        }
+                    }
+                }
+            }
+            break;
+        case 'condition':
+            if (!isNonEmptyString(input.condition)) {
+                fail('condition', 'must be a non-empty string');
+            }
+            break;
+        default:
+            fail('type', "must be one of 'topic', 'tokens', 'condition'");
+    }
+
+    if (errors.length > 0) {
+        throw new MessageValidationError(errors);
+    }
+
+    return { ...input, version: MESSAGE_VERSION } as NotificationMessage;
+}
+
+/**
+ * Epoch seconds at which `message` should be sent; undefined to send right away.
+ */
+export function sendAtSeconds(message: NotificationMessage): number | undefined {
+    return message.sendAt === undefined ? undefined : Date.parse(message.sendAt) / 1000;
+}
+
+/**
+ * Parse and validate an SQS record body.
+ */
+export function parseMessage(raw: string): NotificationMessage {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(raw);
+    } catch (err) {
+        throw new MessageValidationError([{ path: '$', message: `invalid JSON (${(err as Error).message})` }]);
+    }
+    return validateMessage(parsed);
+}
+
+/**
+ * Build the FCM v1 message for a NotificationMessage.
+ * For `tokens` messages pass the device token to target; the explicit `android`/`apns`/`webpush`
+ * overrides win over the values derived from `ttl`, `priority` and `collapseKey`.
+ */
+export function toFcmMessage(message: NotificationMessage, token?: string): FcmMessage {
+    const { title, body, image, data, ttl, priority, collapseKey } = message;
+
+    const target: Pick<FcmMessage, 'topic' | 'token' | 'condition'> =
+        message.type === 'topic'
+            ? { topic: message.topic }
+            : message.type === 'condition'
+            ? { condition: message.condition }
+            : { token };
+
+    const android: Record<string, unknown> = {
+        ...(ttl !== undefined && { ttl: `${ttl}s` }),
+        ...(priority && { priority: priority === 'high' ? 'HIGH' : 'NORMAL' }),
+        ...(collapseKey && { collapse_key: collapseKey }),
+    };
+
+    const apnsHeaders: Record<string, string> = {
+        ...(ttl !== undefined && { 'apns-expiration': String(Math.floor(Date.now() / 1000) + ttl) }),
+        ...(priority && { 'apns-priority': priority === 'high' ? '10' : '5' }),
+        ...(collapseKey && { 'apns-collapse-id': collapseKey }),
+    };
+
+    const webpushHeaders: Record<string, string> = {
+        ...(ttl !== undefined && { TTL: String(ttl) }),
+        ...(priority && { Urgency: priority === 'high' ? 'high' : 'normal' }),
+        ...(collapseKey && { Topic: collapseKey }),
+    };
+
+    const merge = (derived: Record<string, unknown>, override?: Record<string, unknown>) => {
+        const merged = { ...derived, ...override };
+        return Object.keys(merged).length > 0 ? merged : undefined;
+    };
+
+    const mergeHeaders = (headers: Record<string, string>, override?: Record<string, unknown>) => {
+        const overrideHeaders = isPlainObject(override?.headers) ? override?.headers : undefined;
+        const mergedHeaders = { ...headers, ...overrideHeaders };
+        return merge(Object.keys(mergedHeaders).length > 0 ? { headers: mergedHeaders } : {}, {
+            ...override,
+            ...(overrideHeaders && { headers: mergedHeaders }),
+        });
+    };
+
+    const fcmMessage: FcmMessage = { ...target };
+
+    if (title !== undefined || body !== undefined || image !== undefined) {
+        fcmMessage.notification = { title, body, image };
+    }
+    if (data) {
+        fcmMessage.data = data;
+    }
+
+    const androidConfig = merge(android, message.android);
+    const apnsConfig = mergeHeaders(apnsHeaders, message.apns);
+    const webpushConfig = mergeHeaders(webpushHeaders, message.webpush);
+
+    if (androidConfig) fcmMessage.android = androidConfig;
+    if (apnsConfig) fcmMessage.apns = apnsConfig;
+    if (webpushConfig) fcmMessage.webpush = webpushConfig;
+
+    return fcmMessage;
+}
@@ -0,0 +1,144 @@
+export type MetricUnit = 'Count' | 'Milliseconds' | 'None';
+
+export type MetricDimensions = Record<string, string>;
+
+/**
+ * One CloudWatch Embedded Metric Format document: CloudWatch extracts the metrics named in `_aws`
+ * from the log line, reading their values and dimensions from the root fields.
+ */
+export interface EmfDocument {
+    _aws: {
+        Timestamp: number;
+        CloudWatchMetrics: Array<{
+            Namespace: string;
+            Dimensions: string[][];
+            Metrics: Array<{ Name: string; Unit: MetricUnit }>;
+        }>;
+    };
+    [field: string]: unknown;
+}
+
+export interface MetricsSink {
+    write(document: EmfDocument): void;
+}
+
+/**
+ * Sink keeping the documents in memory, for tests.
+ */
+export interface MemoryMetricsSink extends MetricsSink {
+    readonly documents: EmfDocument[];
+    /** Every value written for `name` in documents whose dimensions include `dimensions`. */
+    values(name: string, dimensions?: MetricDimensions): number[];
+}
+
+/**
+ * Records metrics in memory until flush() writes them, once per invocation.
+ */
+export interface Metrics {
+    put(name: string, value: number, unit?: MetricUnit): void;
+    /** Metrics recording with `dimensions` added, sharing this one's buffer. */
+    withDimensions(dimensions: MetricDimensions): Metrics;
+    flush(): void;
+}
+
+export interface MetricsOptions {
+    namespace: string;
+    /** Dimensions of every metric, e.g. `{ Stage }`. */
+    dimensions?: MetricDimensions;
+    now?: () => number;
+}
+
+/** EMF limits per document. */
+const MAX_METRICS_PER_DOCUMENT = 100;
+const MAX_VALUES_PER_METRIC = 100;
+
+/**
+ * Writes each document as a line on stdout, where the Lambda log group picks it up.
+ */
+export const stdoutMetricsSink: MetricsSink = {
+    write: (document) => process.stdout.write(`${JSON.stringify(document)}\n`),
+};
+
+export function memoryMetricsSink(): MemoryMetricsSink {
+    const documents: EmfDocument[] = [];
+    return {
+        documents,
+        write: (document) => documents.push(document),
+        values: (name, dimensions = {}) =>
+            documents
+                .filter(
+                    (document) =>
+                        name in document && Object.entries(dimensions).every(([key, value]) => document[key] === value),
+                )
+                .flatMap((document) => document[name] as number[]),
+    };
+}
+
+interface Series {
+    dimensions: MetricDimensions;
+    metrics: Map<string, { unit: MetricUnit; values: number[] }>;
+}
+
+export function createMetrics(sink: MetricsSink, options: MetricsOptions): Metrics {
+    const { namespace, dimensions = {}, now = Date.now } = options;
+    // One series per dimension set, each written as its own documents
+    const buffer = new Map<string, Series>();
+
+    const document = (series: Series, names: string[], values: Map<string, number[]>): EmfDocument => ({
+        _aws: {
+            Timestamp: now(),
+            CloudWatchMetrics: [
+                {
+                    Namespace: namespace,
+                    Dimensions: [Object.keys(series.dimensions)],
+                    Metrics: names.map((name) => ({ Name: name, Unit: series.metrics.get(name)?.unit ?? 'None' })),
+                },
+            ],
+        },
+        ...series.dimensions,
+        ...Object.fromEntries(names.map((name) => [name, values.get(name)])),
+    });
+
+    const flushSeries = (series: Series) => {
+        const pending = new Map([...series.metrics].map(([name, { values }]) => [name, [...values]]));
+        while (pending.size > 0) {
+            // Up to 100 values of each metric per round, up to 100 metrics per document
+            const round = new Map(
+                [...pending].map(([name, values]) => [name, values.splice(0, MAX_VALUES_PER_METRIC)]),
+            );
+            const names = [...round.keys()];
+            for (let i = 0; i < names.length; i += MAX_METRICS_PER_DOCUMENT) {
+                sink.write(document(series, names.slice(i, i + MAX_METRICS_PER_DOCUMENT), round));
+            }
+            for (const [name, values] of pending) {
+                if (values.length === 0) {
+                    pending.delete(name);
+                }
+            }
+        }
+    };
+
+    const metricsWith = (seriesDimensions: MetricDimensions): Metrics => {
+        const key = JSON.stringify(Object.entries(seriesDimensions).sort(([a], [b]) => a.localeCompare(b)));
+        return {
+            put(name, value, unit = 'Count') {
+                let series = buffer.get(key);
+                if (!series) {
+                    series = { dimensions: seriesDimensions, metrics: new Map() };
+                    buffer.set(key, series);
+                }
+                const metric = series.metrics.get(name) ?? { unit, values: [] };
+                metric.values.push(value);
+                series.metrics.set(name, metric);
+            },
+            withDimensions: (extra) => metricsWith({ ...seriesDimensions, ...extra }),
+            flush() {
+                const all = [...buffer.values()];
+                buffer.clear();
+                all.forEach(flushSeries);
+            },
+        };
+    };
+
+    return metricsWith(dimensions);
+}
@@ -0,0 +1,156 @@
+import type { NotificationMessage } from './message';
+
+/**
+ * Local times of day between which a message may be sent, e.g. `{ start: '08:00', end: '21:00' }`.
+ * `end` before `start` spans midnight. Times are read in `timeZone` (IANA, UTC by default), or in
+ * the device's own time zone for `tokens` messages with `tokenTimeZones`.
+ */
+export interface DeliveryWindow {
+    start: string;
+    end: string;
+    timeZone?: string;
+}
+
+/**
+ * Part of a message deferred to the next time its window opens.
+ */
+export interface DeferredPart {
+    /** Epoch seconds. */
+    sendAt: number;
+    message: NotificationMessage;
+}
+
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const MINUTES_PER_DAY = 1440;
+const MINUTE_MS = 60000;
+
+/**
+ * Minutes since midnight of an `HH:MM` time, undefined when malformed.
+ */
+export function parseTimeOfDay(value: string): number | undefined {
+    const match = TIME_OF_DAY_PATTERN.exec(value);
+    return match ? Number(match[1]) * 60 + Number(match[2]) : undefined;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Local minutes since midnight and UTC offset (in minutes) in `timeZone` at `at` (epoch milliseconds).
+ */
+function wallClock(timeZone: string, at: number): { minutes: number; offsetMinutes: number } {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric',
+            second: 'numeric',
+        });
+        formatters.set(timeZone, formatter);
+    }
+
+    const parts = Object.fromEntries(formatter.formatToParts(at).map(({ type, value }) => [type, Number(value)]));
+    const local = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+    return {
+        minutes: parts.hour * 60 + parts.minute,
+        offsetMinutes: Math.round((local - Math.floor(at / 1000) * 1000) / MINUTE_MS),
+    };
+}
+
+function bounds(window: DeliveryWindow): [number, number] {
+    const start = parseTimeOfDay(window.start);
+    const end = parseTimeOfDay(window.end);
+    if (start === undefined || end === undefined) {
+        throw new Error(`Invalid delivery window: ${window.start}-${window.end}`);
+    }
+    return [start, end];
+}
+
+export function isWithinWindow(window: DeliveryWindow, timeZone: string, at: number): boolean {
+    const [start, end] = bounds(window);
+    const { minutes } = wallClock(timeZone, at);
+    return start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+/**
+ * Epoch milliseconds at which `window` next allows sending in `timeZone`: `now` while it is open.
+ */
+export function nextWindowStart(window: DeliveryWindow, timeZone: string, now: number): number {
+    if (isWithinWindow(window, timeZone, now)) {
+        return now;
+    }
+
+    const [start] = bounds(window);
+    const { minutes, offsetMinutes } = wallClock(timeZone, now);
+    const candidate = now - (now % MINUTE_MS) + ((start - minutes + MINUTES_PER_DAY) % MINUTES_PER_DAY) * MINUTE_MS;
+
+    // A DST change in between moves the local clock: shift back onto the start time unless it was skipped
+    const corrected = candidate - (wallClock(timeZone, candidate).offsetMinutes - offsetMinutes) * MINUTE_MS;
+    return corrected > now && isWithinWindow(window, timeZone, corrected) ? corrected : candidate;
+}
+
+/**
+ * Split `message` into what may be sent at `now` (epoch milliseconds) and parts deferred to when
+ * their window opens, with `sendAt` set. `tokens` messages are split per device time zone.
+ */
+export function splitByDeliveryWindow(
+    message: NotificationMessage,
+    now: number,
+): { sendable?: NotificationMessage; deferred: DeferredPart[] } {
+    const { deliveryWindow } = message;
+    if (!deliveryWindow) {
+        return { sendable: message, deferred: [] };
+    }
+
+    const defaultZone = deliveryWindow.timeZone ?? 'UTC';
+    const defer = (at: number, part: NotificationMessage): DeferredPart => ({
+        sendAt: at / 1000,
+        message: { ...part, sendAt: new Date(at).toISOString() },
+    });
+
+    if (message.type !== 'tokens') {
+        const at = nextWindowStart(deliveryWindow, defaultZone, now);
+        return at === now ? { sendable: message, deferred: [] } : { deferred: [defer(at, message)] };
+    }
+
+    const groups = new Map<number, string[]>();
+    for (const token of message.tokens) {
+        const at = nextWindowStart(deliveryWindow, message.tokenTimeZones?.[token] ?? defaultZone, now);
+        const group = groups.get(at) ?? [];
+        group.push(token);
+        groups.set(at, group);
+    }
+
+    const part = (tokens: string[]): NotificationMessage => {
+        const kept = new Set(tokens);
+        return {
+            ...message,
+            tokens,
+            ...(message.tokenTimeZones && {
+                tokenTimeZones: Object.fromEntries(
+                    Object.entries(message.tokenTimeZones).filter(([token]) => kept.has(token)),
+                ),
+            }),
+        };
+    };
+
+    const sendable = groups.get(now);
+    groups.delete(now);
+    return {
+        sendable: sendable && part(sendable),
+        deferred: [...groups.entries()].sort(([a], [b]) => a - b).map(([at, tokens]) => defer(at, part(tokens))),
+    };
+}
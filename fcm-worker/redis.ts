@@ -0,0 +1,173 @@
+import Redis, { Cluster, ClusterNode, RedisOptions } from 'ioredis';
+
+/** A standalone (or sentinel-managed) client or a cluster client; both run the limiter scripts. */
+export type RedisClient = Redis | Cluster;
+
+export type RedisMode = 'standalone' | 'cluster' | 'sentinel';
+
+export interface RedisNode {
+    host: string;
+    port: number;
+}
+
+export interface RedisConnection {
+    mode: RedisMode;
+    /** The server, the cluster seed nodes or the sentinels. */
+    nodes: RedisNode[];
+    username?: string;
+    password?: string;
+    tls: boolean;
+    db: number;
+    /** Master group monitored by the sentinels. */
+    sentinelName?: string;
+}
+
+export interface RedisConnectOptions {
+    maxRetries: number;
+    retryDelayMs: number;
+    connectTimeoutMs: number;
+}
+
+const SCHEMES: Record<string, { mode?: RedisMode; tls: boolean }> = {
+    redis: { tls: false },
+    rediss: { tls: true },
+    'redis+cluster': { mode: 'cluster', tls: false },
+    'rediss+cluster': { mode: 'cluster', tls: true },
+    'redis+sentinel': { mode: 'sentinel', tls: false },
+    'rediss+sentinel': { mode: 'sentinel', tls: true },
+};
+
+const DEFAULT_PORT = 6379;
+const DEFAULT_SENTINEL_PORT = 26379;
+
+function parseNode(value: string, defaultPort: number): RedisNode {
+    const match = /^(\[[^\]]+\]|[^:[\]]+)(?::(\d+))?$/.exec(value);
+    if (!match) {
+        throw new Error(`invalid host "${value}"`);
+    }
+    return { host: match[1].replace(/^\[(.*)\]$/, '$1'), port: match[2] ? Number(match[2]) : defaultPort };
+}
+
+/**
+ * Parse a Redis URL:
+ *  - `redis[s]://[user[:password]@]host[:port][/db]` for a single server
+ *  - `redis[s]://[user[:password]@]host1:port,host2:port` or `redis[s]+cluster://...` for a cluster
+ *    (the latter also for a single configuration endpoint)
+ *  - `redis[s]+sentinel://[user[:password]@]sentinel1:port,sentinel2:port/master[/db]` for sentinels
+ * Credentials apply to the data nodes. Throws on anything else.
+ */
+export function parseRedisUrl(url: string): RedisConnection {
+    const match = /^([a-z+]+):\/\/(?:([^@/]*)@)?([^/]*)(?:\/(.*))?$/.exec(url.trim());
+    const scheme = match && SCHEMES[match[1]];
+    if (!match || !scheme) {
+        throw new Error(`must use one of ${Object.keys(SCHEMES).join(', ')}`);
+    }
+    const [, , auth, hosts, path = ''] = match;
+
+    let username: string | undefined;
+    let password: string | undefined;
+    if (auth) {
+        const separator = auth.indexOf(':');
+        // A lone user info part is a password, as in redis://:password@host and redis://password@host
+        username = separator > 0 ? decodeURIComponent(auth.slice(0, separator)) : undefined;
+        password = decodeURIComponent(separator >= 0 ? auth.slice(separator + 1) : auth) || undefined;
+    }
+
+    const sentinel = scheme.mode === 'sentinel';
+    const nodes = hosts
+        .split(',')
+        .filter(Boolean)
+        .map((host) => parseNode(host, sentinel ? DEFAULT_SENTINEL_PORT : DEFAULT_PORT));
+    if (nodes.length === 0) {
+        throw new Error('needs at least one host');
+    }
+
+    const mode = scheme.mode ?? (nodes.length > 1 ? 'cluster' : 'standalone');
+    const segments = path.split('/').filter(Boolean);
+    const sentinelName = sentinel ? segments.shift() : undefined;
+    if (sentinel && !sentinelName) {
+        throw new Error('needs the master name as path, e.g. redis+sentinel://sentinel:26379/mymaster');
+    }
+
+    const db = segments.length > 0 ? Number(segments[0]) : 0;
+    if (segments.length > 1 || !Number.isInteger(db) || db < 0) {
+        throw new Error(`invalid database "${segments.join('/')}"`);
+    }
+    if (mode === 'cluster' && db !== 0) {
+        throw new Error('cluster mode only has database 0');
+    }
+
+    return { mode, nodes, username, password, tls: scheme.tls, db, sentinelName };
+}
+
+/**
+ * Build a lazily connecting client for `connection`: a `Redis.Cluster` in cluster mode, a `Redis` otherwise.
+ * Commands fail fast instead of queueing while disconnected, so the limiter can fall back.
+ */
+export function createRedis(connection: RedisConnection, options: RedisConnectOptions): RedisClient {
+    const { mode, nodes, username, password, tls, db } = connection;
+    const retryStrategy = (times: number) => (times >= options.maxRetries ? null : times * options.retryDelayMs);
+    const nodeOptions: RedisOptions = {
+        username,
+        password,
+        connectTimeout: options.connectTimeoutMs,
+        maxRetriesPerRequest: options.maxRetries,
+        ...(tls && { tls: mode === 'standalone' ? { servername: nodes[0].host } : {} }),
+    };
+
+    if (mode === 'cluster') {
+        return new Cluster(nodes as ClusterNode[], {
+            redisOptions: nodeOptions,
+            clusterRetryStrategy: retryStrategy,
+            enableOfflineQueue: false,
+            lazyConnect: true,
+            // Keep the hostnames for TLS certificate checks (ElastiCache); they resolve when connecting
+            ...(tls && { dnsLookup: (address, callback) => callback(null, address) }),
+        });
+    }
+
+    return new Redis({
+        ...nodeOptions,
+        ...(mode === 'sentinel'
+            ? { sentinels: nodes, name: connection.sentinelName, enableTLSForSentinelMode: tls }
+            : { host: nodes[0].host, port: nodes[0].port }),
+        db,
+        retryStrategy,
+        enableOfflineQueue: false,
+        lazyConnect: true,
+    });
+}
+
+/**
+ * The hash tag Redis Cluster hashes `key` on: the content of its first non-empty `{...}`, else the whole key.
+ */
+export function hashTagOf(key: string): string {
+    const open = key.indexOf('{');
+    if (open >= 0) {
+        const close = key.indexOf('}', open + 1);
+        if (close > open + 1) {
+            return key.slice(open + 1, close);
+        }
+    }
+    return key;
+}
+
+/**
+ * Wrap `key` in a hash tag unless it has one, so keys derived from it (`{key}:suffix`) share its cluster slot.
+ */
+export function hashTag(key: string): string {
+    return hashTagOf(key) === key ? `{${key}}` : key;
+}
+
+/**
+ * Multi-key scripts must only touch keys of one slot on a cluster; fail with the offending keys
+ * instead of the server's CROSSSLOT error. Standalone clients accept any keys.
+ */
+export function assertSameSlot(redis: RedisClient, keys: readonly string[]): void {
+    if (!redis.isCluster || new Set(keys.map(hashTagOf)).size <= 1) {
+        return;
+    }
+    throw new Error(
+        `Keys must share a hash tag in cluster mode, e.g. "{prefix}:a" and "{prefix}:b": ${keys.join(', ')}`,
+    );
+}
@@ -0,0 +1,128 @@
+import type { SQSRecord } from 'aws-lambda';
+import type { ErrorCategory } from './errors';
+import type { SqsClient } from './sqs';
+import { log } from './logger';
+
+/** SQS caps DelaySeconds at 15 minutes. */
+export const MAX_DELAY_SECONDS = 900;
+export const REQUEUE_COUNT_ATTRIBUTE = 'RequeueCount';
+/** Failed deliveries of the copies a partly delivered record was requeued from. */
+export const ATTEMPT_COUNT_ATTRIBUTE = 'AttemptCount';
+/** Attributes recording why a record was moved to the DLQ by the worker rather than by the redrive policy. */
+export const FAILURE_CATEGORY_ATTRIBUTE = 'FailureCategory';
+export const FAILURE_REASON_ATTRIBUTE = 'FailureReason';
+export const SOURCE_MESSAGE_ID_ATTRIBUTE = 'SourceMessageId';
+
+/** Longest failure reason kept on a dead-lettered record. */
+const MAX_REASON_LENGTH = 1024;
+
+export interface RequeueOptions {
+    /** Epoch seconds at which the limiter window decays. */
+    decaysAt: number;
+    /** Replacement body, e.g. only the tokens that were not sent. Defaults to the record body. */
+    body?: string;
+    /** Upper bound of the random delay added on top of `decaysAt`, multiplied by the requeue count. */
+    jitterSeconds?: number;
+    /** Give up (and let SQS redeliver normally) after this many requeues. */
+    maxRequeues?: number;
+    /** Failed deliveries the copy carries towards its retry budget. Defaults to those the record carries. */
+    attempts?: number;
+    now?: number;
+    random?: () => number;
+}
+
+/**
+ * Turn `arn:aws:sqs:{region}:{account}:{name}` into the queue URL.
+ */
+export function queueUrlFromArn(arn: string): string {
+    const [, partition, service, region, account, name] = arn.split(':');
+    if (service !== 'sqs' || !region || !account || !name) {
+        throw new Error(`Not an SQS queue ARN: ${arn}`);
+    }
+    const domain = partition === 'aws-cn' ? 'amazonaws.com.cn' : 'amazonaws.com';
+    return `https://sqs.${region}.${domain}/${account}/${name}`;
+}
+
+export function requeueCount(record: SQSRecord): number {
+    return Number(record.messageAttributes?.[REQUEUE_COUNT_ATTRIBUTE]?.stringValue ?? 0) || 0;
+}
+
+/**
+ * How many times SQS delivered `record`, this delivery included.
+ */
+export function receiveCount(record: SQSRecord): number {
+    return Number(record.attributes?.ApproximateReceiveCount ?? 1) || 1;
+}
+
+/**
+ * Failed deliveries of `record` so far, this delivery included, across the copies it was requeued from.
+ */
+export function attemptCount(record: SQSRecord): number {
+    const carried = Number(record.messageAttributes?.[ATTEMPT_COUNT_ATTRIBUTE]?.stringValue ?? 0) || 0;
+    return carried + receiveCount(record);
+}
+
+/**
+ * Seconds to wait until the limiter window decays, plus jitter that grows with each requeue
+ * so throttled messages don't all come back in the same second.
+ */
+export function backoffDelay(
+    decaysAt: number,
+    attempt: number,
+    { jitterSeconds = 5, now = Date.now(), random = Math.random }: Partial<RequeueOptions> = {},
+): number {
+    const untilDecay = Math.max(0, decaysAt - now / 1000);
+    const jitter = random() * jitterSeconds * (attempt + 1);
+    return Math.min(MAX_DELAY_SECONDS, Math.max(1, Math.ceil(untilDecay + jitter)));
+}
+
+/**
+ * Re-send a throttled record to its queue with DelaySeconds instead of failing it.
+ * The copy starts with a fresh receive count, so throttling never pushes a message towards the DLQ.
+ * Resolves false when the record has exhausted `maxRequeues`; the caller should fail it instead.
+ */
+export async function requeue(sqs: SqsClient, record: SQSRecord, options: RequeueOptions): Promise<boolean> {
+    const count = requeueCount(record);
+    if (count >= (options.maxRequeues ?? 20)) {
+        return false;
+    }
+
+    const delaySeconds = backoffDelay(options.decaysAt, count, options);
+    const attempts = options.attempts ?? attemptCount(record) - receiveCount(record);
+
+    await sqs.sendMessage({
+        queueUrl: queueUrlFromArn(record.eventSourceARN),
+        body: options.body ?? record.body,
+        delaySeconds,
+        messageAttributes: {
+            [REQUEUE_COUNT_ATTRIBUTE]: String(count + 1),
+            ...(attempts > 0 && { [ATTEMPT_COUNT_ATTRIBUTE]: String(attempts) }),
+        },
+    });
+
+    log.info('Requeued message', { messageId: record.messageId, delaySeconds, requeueCount: count + 1 });
+    return true;
+}
+
+/**
+ * Move `record` to the dead-letter queue `queueArn` now instead of waiting for the redrive policy,
+ * tagged with why it failed. The caller acknowledges the record once this resolves.
+ */
+export async function deadLetter(
+    sqs: SqsClient,
+    record: SQSRecord,
+    queueArn: string,
+    failure: { category: ErrorCategory; reason: string },
+): Promise<void> {
+    await sqs.sendMessage({
+        queueUrl: queueUrlFromArn(queueArn),
+        body: record.body,
+        messageAttributes: {
+            [FAILURE_CATEGORY_ATTRIBUTE]: failure.category,
+            [FAILURE_REASON_ATTRIBUTE]: failure.reason.slice(0, MAX_REASON_LENGTH) || 'unknown',
+            [SOURCE_MESSAGE_ID_ATTRIBUTE]: record.messageId,
+        },
+    });
+
+    log.info('Dead-lettered message', { messageId: record.messageId, ...failure });
+}
@@ -0,0 +1,117 @@
+import type { SQSRecord } from 'aws-lambda';
+import { createHash } from 'crypto';
+import type { RedisClient } from './redis';
+import { MAX_DELAY_SECONDS, REQUEUE_COUNT_ATTRIBUTE, queueUrlFromArn, requeueCount } from './requeue';
+import type { SqsClient } from './sqs';
+import { log } from './logger';
+
+/**
+ * A record parked until its `sendAt`.
+ */
+export interface ScheduledItem {
+    /** SQS message id of the parked record. */
+    id: string;
+    /** Record body, unchanged. */
+    body: string;
+}
+
+/**
+ * A due item claimed by `claimDue`; pass it back to `unschedule` once dispatched.
+ */
+export interface ClaimedItem extends ScheduledItem {
+    member: string;
+    /** Claims of the item so far, this one included: its receive count on the send path. */
+    attempts: number;
+}
+
+export const CLAIM_DUE_LUA = `
+-- KEYS[1]  : schedule (sorted set of items scored by send time)
+-- ARGV[1]  : nowSeconds
+-- ARGV[2]  : limit (items to claim at most)
+-- ARGV[3]  : lease (seconds before an item that was not unscheduled is due again)
+
+-- Each claim rewrites the member's trailing "attempts" field, so the count needs no other key
+-- Return: the claimed members, as rewritten
+local due = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, tonumber(ARGV[2]))
+for i, member in ipairs(due) do
+  local item, attempts = string.match(member, '^(.*),"attempts":(%d+)}$')
+  if not item then
+    item, attempts = string.sub(member, 1, -2), 0
+  end
+  due[i] = item .. ',"attempts":' .. (tonumber(attempts) + 1) .. '}'
+  redis.call('ZREM', KEYS[1], member)
+  redis.call('ZADD', KEYS[1], tonumber(ARGV[1]) + tonumber(ARGV[3]), due[i])
+end
+return due
+` as const;
+
+/**
+ * Park `item` until `sendAt` (epoch seconds). Parking the same record twice keeps one entry until it is claimed.
+ */
+export async function schedule(redis: RedisClient, key: string, item: ScheduledItem, sendAt: number): Promise<void> {
+    await redis.zadd(key, sendAt, JSON.stringify({ id: item.id, body: item.body }));
+}
+
+/**
+ * Claim up to `limit` items due at `now` (epoch milliseconds). Claimed items stay in the schedule,
+ * due again `leaseSeconds` later, so an item whose dispatch failed or crashed is retried; each claim
+ * counts as an attempt.
+ */
+export async function claimDue(
+    redis: RedisClient,
+    key: string,
+    { limit, leaseSeconds, now = Date.now() }: { limit: number; leaseSeconds: number; now?: number },
+): Promise<ClaimedItem[]> {
+    const members = (await redis.eval(CLAIM_DUE_LUA, 1, key, now / 1000, limit, leaseSeconds)) as string[];
+    return members.map((member) => {
+        const { id, body, attempts } = JSON.parse(member) as ScheduledItem & { attempts: number };
+        return { id, body, member, attempts };
+    });
+}
+
+/**
+ * Remove a dispatched item from the schedule.
+ */
+export async function unschedule(redis: RedisClient, key: string, item: ClaimedItem): Promise<void> {
+    await redis.zrem(key, item.member);
+}
+
+/**
+ * Re-send `record` to its queue to arrive at `sendAt` (epoch seconds, at most 15 minutes away).
+ */
+export async function deferRecord(sqs: SqsClient, record: SQSRecord, sendAt: number, now = Date.now()): Promise<void> {
+    const delaySeconds = Math.min(MAX_DELAY_SECONDS, Math.max(0, Math.ceil(sendAt - now / 1000)));
+    const count = requeueCount(record);
+
+    await sqs.sendMessage({
+        queueUrl: queueUrlFromArn(record.eventSourceARN),
+        body: record.body,
+        delaySeconds,
+        messageAttributes: count > 0 ? { [REQUEUE_COUNT_ATTRIBUTE]: String(count) } : undefined,
+    });
+
+    log.info('Deferred message until its sendAt', { messageId: record.messageId, delaySeconds });
+}
+
+/**
+ * Rebuild the SQS record of a claimed item, as if delivered by `queueArn`, for the regular send path.
+ * Its receive count is the item's attempts, so a parked message follows the same retry budgets.
+ */
+export function scheduledRecord(item: ClaimedItem, queueArn: string, now = Date.now()): SQSRecord {
+    return {
+        messageId: item.id,
+        receiptHandle: '',
+        body: item.body,
+        attributes: {
+            ApproximateReceiveCount: String(item.attempts),
+            SentTimestamp: String(now),
+            SenderId: 'scheduler',
+            ApproximateFirstReceiveTimestamp: String(now),
+        },
+        messageAttributes: {},
+        md5OfBody: createHash('md5').update(item.body).digest('hex'),
+        eventSource: 'aws:sqs',
+        eventSourceARN: queueArn,
+        awsRegion: queueArn.split(':')[3],
+    };
+}
@@ -0,0 +1,102 @@
+import { DeleteMessageCommand, ReceiveMessageCommand, SQSClient, SendMessageCommand } from '@aws-sdk/client-sqs';
+
+export interface SendMessageInput {
+    queueUrl: string;
+    body: string;
+    delaySeconds?: number;
+    /** String message attributes. */
+    messageAttributes?: Record<string, string>;
+}
+
+export interface ReceiveMessagesInput {
+    queueUrl: string;
+    /** At most 10, the SQS maximum. */
+    maxMessages?: number;
+    /** Seconds the received messages stay hidden from other receivers. */
+    visibilityTimeout?: number;
+    /** Long-poll up to this many seconds; 0 samples only some SQS servers and may miss messages. */
+    waitTimeSeconds?: number;
+}
+
+export interface QueueMessage {
+    messageId: string;
+    receiptHandle: string;
+    body: string;
+    /** String message attributes. */
+    messageAttributes: Record<string, string>;
+    /** Epoch milliseconds at which the message was sent to its first queue. */
+    sentTimestamp: number;
+    receiveCount: number;
+}
+
+/**
+ * The subset of SQS the worker uses, so tests can swap in an in-memory fake.
+ */
+export interface SqsClient {
+    sendMessage(input: SendMessageInput): Promise<void>;
+}
+
+/**
+ * SqsClient that can also consume a queue, for the DLQ tooling.
+ */
+export interface SqsQueueClient extends SqsClient {
+    /** Resolves with no messages when the queue has nothing visible. */
+    receiveMessages(input: ReceiveMessagesInput): Promise<QueueMessage[]>;
+    deleteMessage(queueUrl: string, receiptHandle: string): Promise<void>;
+}
+
+/**
+ * SqsClient backed by the AWS SDK.
+ */
+export function awsSqsClient(sqs: SQSClient = new SQSClient({})): SqsQueueClient {
+    return {
+        async sendMessage({ queueUrl, body, delaySeconds, messageAttributes }) {
+            await sqs.send(
+                new SendMessageCommand({
+                    QueueUrl: queueUrl,
+                    MessageBody: body,
+                    DelaySeconds: delaySeconds,
+                    MessageAttributes:
+                        messageAttributes &&
+                        Object.fromEntries(
+                            Object.entries(messageAttributes).map(([name, value]) => [
+                                name,
+                                { DataType: 'String', StringValue: value },
+                            ]),
+                        ),
+                }),
+            );
+        },
+
+        async receiveMessages({ queueUrl, maxMessages = 10, visibilityTimeout, waitTimeSeconds }) {
+            const { Messages = [] } = await sqs.send(
+                new ReceiveMessageCommand({
+                    QueueUrl: queueUrl,
+                    MaxNumberOfMessages: maxMessages,
+                    VisibilityTimeout: visibilityTimeout,
+                    WaitTimeSeconds: waitTimeSeconds,
+                    MessageSystemAttributeNames: ['SentTimestamp', 'ApproximateReceiveCount'],
+                    MessageAttributeNames: ['All'],
+                }),
+            );
+
+            return Messages.map((message) => ({
+                messageId: message.MessageId ?? '',
+                receiptHandle: message.ReceiptHandle ?? '',
+                body: message.Body ?? '',
+                messageAttributes: Object.fromEntries(
+                    Object.entries(message.MessageAttributes ?? {}).map(([name, value]) => [
+                        name,
+                        value.StringValue ?? '',
+                    ]),
+                ),
+                sentTimestamp: Number(message.Attributes?.SentTimestamp ?? 0),
+                receiveCount: Number(message.Attributes?.ApproximateReceiveCount ?? 1),
+            }));
+        },
+
+        async deleteMessage(queueUrl, receiptHandle) {
+            await sqs.send(new DeleteMessageCommand({ QueueUrl: queueUrl, ReceiptHandle: receiptHandle }));
+        },
+    };
+}
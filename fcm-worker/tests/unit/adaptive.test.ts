@@ -0,0 +1,198 @@
+import Redis from 'ioredis';
+import { ceilingAt, redisAdaptiveLimit } from '../../adaptive';
+import { FcmError } from '../../fcm';
+import { fanOut } from '../../fanout';
+import { throttle, throttleAll } from '../../throttle';
+
+jest.setTimeout(30000);
+
+const quotaExceeded = (retryAfter?: number) => new FcmError('Quota exceeded', 429, 'RESOURCE_EXHAUSTED', retryAfter);
+const unavailable = (retryAfter?: number) => new FcmError('Unavailable', 503, 'UNAVAILABLE', retryAfter);
+
+/**
+ * Fake FCM sender answering each call with the next step of `script`: 'ok' or an error to throw.
+ */
+const scriptedSender = (script: Array<'ok' | FcmError>) => {
+    let call = 0;
+    return jest.fn(async (token: string) => {
+        const step = script[Math.min(call++, script.length - 1)];
+        if (step !== 'ok') {
+            throw step;
+        }
+        return `name-${token}`;
+    });
+};
+
+describe('ceilingAt', () => {
+    const options = { max: 100, windowSeconds: 60, recoveryPerWindow: 10 };
+
+    it('gives back permits linearly since the last cut, up to the max', () => {
+        expect(ceilingAt(undefined, 1000, options)).toBe(100);
+        expect(ceilingAt({ base: 50, at: 1000 }, 1000, options)).toBe(50);
+        expect(ceilingAt({ base: 50, at: 1000 }, 1090, options)).toBe(65);
+        expect(ceilingAt({ base: 50, at: 1000 }, 2000, options)).toBe(100);
+    });
+});
+
+describe('redisAdaptiveLimit', () => {
+    let redis: Redis;
+    let clock: number;
+
+    const limit = (options: { min?: number; maxPauseSeconds?: number } = {}) =>
+        redisAdaptiveLimit(redis, '{fcm}:adaptive', {
+            max: 100,
+            min: options.min ?? 10,
+            windowSeconds: 60,
+            recoveryPerWindow: 10,
+            maxPauseSeconds: options.maxPauseSeconds,
+            now: () => clock,
+        });
+
+    beforeAll(async () => {
+        redis = new Redis({
+            host: '127.0.0.1',
+            port: 6379,
+            connectTimeout: 2000,
+        });
+        await redis.ping();
+    });
+
+    afterAll(async () => {
+        await redis.quit();
+    });
+
+    beforeEach(async () => {
+        clock = Date.now();
+        await redis.flushall();
+    });
+
+    it('halves the ceiling on a quota error and keeps it on other errors', async () => {
+        const adaptive = limit();
+        expect(await adaptive.ceiling()).toBe(100);
+
+        await adaptive.feedback({ outcome: 'unavailable' });
+        expect(await adaptive.ceiling()).toBe(100);
+
+        await adaptive.feedback({ outcome: 'quota-exceeded' });
+        expect(await adaptive.ceiling()).toBe(50);
+    });
+
+    it('cuts once per window however many workers see the quota error', async () => {
+        const workers = [limit(), limit(), limit()];
+
+        await Promise.all(workers.map((adaptive) => adaptive.feedback({ outcome: 'quota-exceeded' })));
+        expect(await workers[0].ceiling()).toBe(50);
+
+        // A window later the ceiling recovered by 10 before being cut again
+        clock += 60000;
+        await workers[1].feedback({ outcome: 'quota-exceeded' });
+        expect(await workers[2].ceiling()).toBe(30);
+    });
+
+    it('never cuts below the minimum and recovers slowly to the maximum', async () => {
+        const adaptive = limit({ min: 20 });
+
+        for (let i = 0; i < 4; i++) {
+            await adaptive.feedback({ outcome: 'quota-exceeded' });
+            clock += 60000;
+        }
+        // 100 -> 50 -> 30 -> 20 -> 20, each window giving back 10 before the next cut
+        expect(await adaptive.ceiling()).toBe(30);
+
+        clock += 30000;
+        expect(await adaptive.ceiling()).toBe(35);
+
+        clock += 10 * 60000;
+        expect(await adaptive.ceiling()).toBe(100);
+        // The state expires once the last cut fully recovered: 80 permits at 10 per minute
+        expect(await redis.ttl('{fcm}:adaptive')).toBeGreaterThanOrEqual(8 * 60);
+    });
+
+    it('pauses every limiter built with its pause key until Retry-After', async () => {
+        const adaptive = limit();
+        const limiter = () => throttle(redis, '{fcm}:global').allow(100).every(60).pausedBy(adaptive.pauseKey);
+
+        expect((await limiter().check()).allowed).toBe(true);
+
+        await adaptive.feedback({ outcome: 'unavailable', retryAfter: 30 });
+
+        expect(await limiter().check()).toMatchObject({ allowed: false, paused: true, decaysAt: clock / 1000 + 30 });
+        expect(await limiter().block(0).then(jest.fn())).toBe(false);
+        // A pause only stops limiters, it doesn't cut the ceiling
+        expect(await adaptive.ceiling()).toBe(100);
+    });
+
+    it('caps the pause and never shortens a longer one', async () => {
+        const adaptive = limit({ maxPauseSeconds: 120 });
+        const limiter = throttle(redis, '{fcm}:global').allow(100).every(60).pausedBy(adaptive.pauseKey);
+
+        await adaptive.feedback({ outcome: 'quota-exceeded', retryAfter: 3600 });
+        await adaptive.feedback({ outcome: 'quota-exceeded', retryAfter: 10 });
+
+        expect((await limiter.check()).decaysAt).toBe(clock / 1000 + 120);
+    });
+
+    describe('driven by FCM answers during a fan-out', () => {
+        const fanOutWith = async (send: (token: string) => Promise<string>, tokens: string[]) => {
+            const adaptive = limit();
+            const ceiling = await adaptive.ceiling();
+            const result = await fanOut(tokens, send, {
+                concurrency: 1,
+                limiter: () =>
+                    throttleAll(redis).rule('{fcm}:global', ceiling, 60).pausedBy(adaptive.pauseKey).block(0),
+                onSendError: (r) => adaptive.feedback(r),
+            });
+            return { ...result, ceiling: await adaptive.ceiling() };
+        };
+
+        it('stops sending once FCM asks to retry later and cuts the ceiling', async () => {
+            const send = scriptedSender(['ok', 'ok', quotaExceeded(30), 'ok']);
+
+            const { results, throttledUntil, ceiling } = await fanOutWith(send, ['a', 'b', 'c', 'd', 'e']);
+
+            expect(send).toHaveBeenCalledTimes(3);
+            expect(results.map((r) => r.outcome)).toEqual([
+                'success',
+                'success',
+                'quota-exceeded',
+                'throttled',
+                'throttled',
+            ]);
+            expect(results[2].retryAfter).toBe(30);
+            expect(throttledUntil).toBe(clock / 1000 + 30);
+            expect(ceiling).toBe(50);
+        });
+
+        it('keeps sending through quota errors without Retry-After and cuts once', async () => {
+            const send = scriptedSender(['ok', quotaExceeded(), quotaExceeded(), 'ok']);
+
+            const { counts, ceiling } = await fanOutWith(send, ['a', 'b', 'c', 'd']);
+
+            expect(counts).toMatchObject({ success: 2, 'quota-exceeded': 2, throttled: 0 });
+            // Both errors fell in the same window
+            expect(ceiling).toBe(50);
+        });
+
+        it('pauses without cutting when FCM is unavailable', async () => {
+            const send = scriptedSender([unavailable(5), 'ok']);
+
+            const { counts, throttledUntil, ceiling } = await fanOutWith(send, ['a', 'b']);
+
+            expect(counts).toMatchObject({ unavailable: 1, throttled: 1 });
+            expect(throttledUntil).toBe(clock / 1000 + 5);
+            expect(ceiling).toBe(100);
+        });
+
+        it('stops at a cut ceiling on the next message', async () => {
+            await limit().feedback({ outcome: 'quota-exceeded' });
+            const send = scriptedSender(['ok']);
+
+            const { counts } = await fanOutWith(
+                send,
+                Array.from({ length: 60 }, (_, i) => `t${i}`),
+            );
+
+            expect(counts).toMatchObject({ success: 50, throttled: 10 });
+        });
+    });
+});
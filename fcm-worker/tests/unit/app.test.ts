@@ -0,0 +1,650 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { generateKeyPairSync } from 'crypto';
+import Redis from 'ioredis';
+import { Context, ScheduledEvent, SQSEvent, SQSRecord } from 'aws-lambda';
+import { getRedis, lambdaHandler, scheduledHandler } from '../../app';
+import { SendMessageInput } from '../../sqs';
+import { hashToken } from '../../logger';
+
+const mockRequeued: SendMessageInput[] = [];
+let mockSqsFailure: Error | undefined;
+
+jest.mock('../../sqs', () => ({
+    awsSqsClient: () => ({
+        sendMessage: async (input: SendMessageInput) => {
+            if (mockSqsFailure) {
+                throw mockSqsFailure;
+            }
+            mockRequeued.push(input);
+        },
+    }),
+}));
+
+jest.setTimeout(30000);
+
+const context = { awsRequestId: 'test-request', getRemainingTimeInMillis: () => 30000 } as Context;
+
+const record = (messageId: string, body: unknown): SQSRecord =>
+    ({
+        messageId,
+        receiptHandle: `handle-${messageId}`,
+        body: typeof body === 'string' ? body : JSON.stringify(body),
+        attributes: { ApproximateReceiveCount: '1' },
+        messageAttributes: {},
+        eventSource: 'aws:sqs',
+        eventSourceARN: 'arn:aws:sqs:ap-southeast-1:123456789012:fcm-main-queue-sqs-staging',
+    } as unknown as SQSRecord);
+
+const batch = (...records: SQSRecord[]): SQSEvent => ({ Records: records });
+
+const DLQ_ARN = 'arn:aws:sqs:ap-southeast-1:123456789012:fcm-main-queue-sqs-dlq-staging';
+const DLQ_URL = 'https://sqs.ap-southeast-1.amazonaws.com/123456789012/fcm-main-queue-sqs-dlq-staging';
+
+/**
+ * Run `fn` collecting what it writes to stdout: the JSON log lines and EMF documents.
+ */
+const captureStdout = async (fn: () => Promise<unknown>) => {
+    const chunks: string[] = [];
+    const write = jest.spyOn(process.stdout, 'write').mockImplementation((chunk) => chunks.push(String(chunk)) > 0);
+    try {
+        await fn();
+    } finally {
+        write.mockRestore();
+    }
+    const output = chunks.join('');
+    const lines: Array<Record<string, unknown>> = output
+        .split('\n')
+        .filter((line) => line.startsWith('{'))
+        .map((line) => JSON.parse(line));
+    return { output, lines };
+};
+
+describe('lambdaHandler', () => {
+    let redis: Redis;
+    let server: http.Server;
+    let sent: Array<Record<string, unknown>>;
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            let body = '';
+            req.on('data', (chunk) => (body += chunk));
+            req.on('end', () => {
+                res.setHeader('Content-Type', 'application/json');
+
+                if (req.url === '/token') {
+                    res.end(JSON.stringify({ access_token: 'access', expires_in: 3600 }));
+                    return;
+                }
+
+                const { message } = JSON.parse(body);
+                if (message.topic === 'quota') {
+                    res.statusCode = 429;
+                    res.setHeader('Retry-After', '30');
+                    res.end(JSON.stringify({ error: { code: 429, status: 'RESOURCE_EXHAUSTED', message: 'quota' } }));
+                    return;
+                }
+
+                if (message.topic === 'rejected') {
+                    res.statusCode = 400;
+                    res.end(JSON.stringify({ error: { code: 400, status: 'INVALID_ARGUMENT', message: 'bad' } }));
+                    return;
+                }
+
+                if (message.topic === 'broken') {
+                    res.statusCode = 503;
+                    res.end(JSON.stringify({ error: { code: 503, status: 'UNAVAILABLE', message: 'down' } }));
+                    return;
+                }
+
+                if (message.token === 'down') {
+                    res.statusCode = 503;
+                    res.end(JSON.stringify({ error: { code: 503, status: 'UNAVAILABLE', message: 'down' } }));
+                    return;
+                }
+
+                if (message.token === 'dead') {
+                    res.statusCode = 404;
+                    res.end(
+                        JSON.stringify({
+                            error: { code: 404, status: 'NOT_FOUND', details: [{ errorCode: 'UNREGISTERED' }] },
+                        }),
+                    );
+                    return;
+                }
+
+                sent.push(message);
+                res.end(JSON.stringify({ name: `projects/test-project/messages/${sent.length}` }));
+            });
+        });
+
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+        const { privateKey } = generateKeyPairSync('rsa', {
+            modulusLength: 2048,
+            privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+            publicKeyEncoding: { type: 'spki', format: 'pem' },
+        });
+
+        process.env.REDIS_URL = 'redis://127.0.0.1:6379';
+        process.env.FCM_BASE_URL = baseUrl;
+        process.env.MAIN_QUEUE_ARN = 'arn:aws:sqs:ap-southeast-1:123456789012:fcm-main-queue-sqs-staging';
+        process.env.DEAD_LETTER_QUEUE_ARN = DLQ_ARN;
+        process.env.FCM_SERVICE_ACCOUNT = JSON.stringify({
+            project_id: 'test-project',
+            client_email: 'worker@test-project.iam.gserviceaccount.com',
+            private_key: privateKey,
+            token_uri: `${baseUrl}/token`,
+        });
+
+        redis = new Redis({
+            host: '127.0.0.1',
+            port: 6379,
+            connectTimeout: 2000,
+        });
+        await redis.ping();
+    });
+
+    afterAll(async () => {
+        await redis.quit();
+        await getRedis().quit();
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+    });
+
+    beforeEach(async () => {
+        sent = [];
+        mockRequeued.length = 0;
+        mockSqsFailure = undefined;
+        await redis.flushall();
+    });
+
+    it('returns no failures when every record is sent', async () => {
+        const result = await lambdaHandler(
+            batch(
+                record('m1', { type: 'topic', title: 't', body: 'b', topic: 'all' }),
+                record('m2', { type: 'tokens', title: 't', body: 'b', tokens: ['a', 'b'] }),
+            ),
+            context,
+        );
+
+        expect(result).toEqual({ batchItemFailures: [] });
+        expect(sent.map((m) => m.topic ?? m.token).sort()).toEqual(['a', 'all', 'b']);
+    });
+
+    it('dead-letters unparseable and invalid records with their field errors instead of retrying them', async () => {
+        const result = await lambdaHandler(
+            batch(
+                record('bad-json', '{not json'),
+                record('bad-type', { type: 'sms', title: 't' }),
+                record('ok', { type: 'topic', title: 't', topic: 'all' }),
+            ),
+            context,
+        );
+
+        expect(result.batchItemFailures).toEqual([]);
+        expect(sent).toHaveLength(1);
+        expect(mockRequeued).toEqual([
+            expect.objectContaining({
+                queueUrl: DLQ_URL,
+                body: '{not json',
+                messageAttributes: expect.objectContaining({
+                    FailureCategory: 'validation',
+                    FailureReason: expect.stringMatching(/^Invalid notification message: \$: invalid JSON/),
+                    SourceMessageId: 'bad-json',
+                }),
+            }),
+            expect.objectContaining({
+                messageAttributes: expect.objectContaining({
+                    FailureCategory: 'validation',
+                    FailureReason: expect.stringContaining('type: must be one of'),
+                    SourceMessageId: 'bad-type',
+                }),
+            }),
+        ]);
+    });
+
+    it('acknowledges tokens messages whose only failures are permanent', async () => {
+        const result = await lambdaHandler(
+            batch(record('m1', { type: 'tokens', title: 't', tokens: ['a', 'dead', 'b'] })),
+            context,
+        );
+
+        expect(result.batchItemFailures).toEqual([]);
+        expect(sent.map((m) => m.token).sort()).toEqual(['a', 'b']);
+        expect(await redis.smembers('fcm:dead_tokens:test-project')).toEqual(['dead']);
+    });
+
+    it('logs JSON lines with the record ids and without tokens or notification content', async () => {
+        const { output, lines } = await captureStdout(() =>
+            lambdaHandler(
+                batch(
+                    record('m1', {
+                        type: 'tokens',
+                        title: 'Secret title',
+                        tokens: ['device-token-1', 'dead'],
+                        correlationId: 'req-7',
+                    }),
+                ),
+                context,
+            ),
+        );
+
+        expect(output).not.toContain('device-token-1');
+        expect(output).not.toContain('Secret title');
+        expect(lines).toContainEqual(
+            expect.objectContaining({
+                level: 'warn',
+                message: 'Failed to push token',
+                awsRequestId: 'test-request',
+                messageId: 'm1',
+                correlationId: 'req-7',
+                type: 'tokens',
+                token: hashToken('dead'),
+                outcome: 'unregistered',
+            }),
+        );
+        expect(lines).toContainEqual(
+            expect.objectContaining({ message: 'Processed message', messageId: 'm1', durationMs: expect.any(Number) }),
+        );
+    });
+
+    it('emits EMF metrics by stage and message type once the batch is done', async () => {
+        const { lines } = await captureStdout(() =>
+            lambdaHandler(
+                batch(
+                    record('m1', { type: 'tokens', title: 't', tokens: ['a', 'dead', 'b'] }),
+                    record('m2', { type: 'topic', title: 't', topic: 'all' }),
+                ),
+                context,
+            ),
+        );
+
+        const documents = lines.filter((line) => '_aws' in line);
+        const values = (name: string, dimensions: Record<string, string>) =>
+            documents
+                .filter((d) => name in d && Object.entries(dimensions).every(([k, v]) => d[k] === v))
+                .flatMap((d) => d[name] as number[]);
+
+        expect(documents[0]).toMatchObject({
+            _aws: { CloudWatchMetrics: [{ Namespace: 'FCMWorker', Dimensions: [['Stage']] }] },
+            Stage: 'staging',
+            BatchSize: [2],
+            ReceiveCount: [1, 1],
+        });
+        expect(values('Sent', { type: 'tokens' })).toEqual([2]);
+        expect(values('Failed', { type: 'tokens', errorCode: 'unregistered' })).toEqual([1]);
+        expect(values('Sent', { type: 'topic' })).toEqual([1]);
+        expect(values('SendLatency', { type: 'tokens' })).toHaveLength(3);
+        expect(values('LimiterRemaining', { type: 'tokens' })).toHaveLength(3);
+        expect(values('GlobalRemaining', { type: 'topic' })).toEqual([1196]);
+        expect(values('LimiterCeiling', { type: 'topic' })).toEqual([1200]);
+        expect(values('RedisLatency', { Stage: 'staging' })).toHaveLength(2);
+    });
+
+    it('requeues throttled records with a delay instead of failing them', async () => {
+        // Leave exactly one slot in the current window
+        const now = Math.floor(Date.now() / 1000);
+        await redis.hset('{fcm_throttle_key}', 'start', now - 1, 'end', now + 59, 'count', 1199);
+
+        const result = await lambdaHandler(
+            batch(
+                record('sent', { type: 'topic', title: 't', topic: 'all' }),
+                record('throttled', { type: 'topic', title: 't', topic: 'all' }),
+            ),
+            context,
+        );
+
+        expect(result.batchItemFailures).toEqual([]);
+        expect(sent).toHaveLength(1);
+        expect(mockRequeued).toHaveLength(1);
+        expect(mockRequeued[0]).toMatchObject({
+            queueUrl: 'https://sqs.ap-southeast-1.amazonaws.com/123456789012/fcm-main-queue-sqs-staging',
+            messageAttributes: { RequeueCount: '1' },
+        });
+        expect(mockRequeued[0].delaySeconds).toBeGreaterThanOrEqual(59);
+    });
+
+    it('requeues only the tokens that were not sent', async () => {
+        const now = Math.floor(Date.now() / 1000);
+        await redis.hset('{fcm_throttle_key}', 'start', now - 1, 'end', now + 59, 'count', 1198);
+
+        const result = await lambdaHandler(
+            batch(record('m1', { type: 'tokens', title: 't', tokens: ['a', 'b', 'c', 'd'] })),
+            context,
+        );
+
+        expect(result.batchItemFailures).toEqual([]);
+        expect(sent).toHaveLength(2);
+
+        const requeued = JSON.parse(mockRequeued[0].body);
+        expect(requeued.tokens).toHaveLength(2);
+        expect([...requeued.tokens, ...sent.map((m) => m.token)].sort()).toEqual(['a', 'b', 'c', 'd']);
+    });
+
+    it('requeues only the failed tokens of a partly delivered message', async () => {
+        const partly = record('m1', { type: 'tokens', title: 't', tokens: ['a', 'down', 'b'] });
+
+        const result = await lambdaHandler(batch(partly), context);
+
+        expect(result.batchItemFailures).toEqual([]);
+        expect(sent.map((m) => m.token).sort()).toEqual(['a', 'b']);
+        expect(mockRequeued).toEqual([
+            expect.objectContaining({ messageAttributes: { RequeueCount: '1', AttemptCount: '1' } }),
+        ]);
+        expect(JSON.parse(mockRequeued[0].body).tokens).toEqual(['down']);
+
+        // The copy fails as a whole and is redelivered on its own; the devices reached are not sent it again
+        const copy = {
+            ...record('m2', mockRequeued[0].body),
+            messageAttributes: { RequeueCount: { stringValue: '1' }, AttemptCount: { stringValue: '1' } },
+        } as unknown as SQSRecord;
+        expect((await lambdaHandler(batch(copy), context)).batchItemFailures).toEqual([{ itemIdentifier: 'm2' }]);
+        expect(sent).toHaveLength(2);
+    });
+
+    it('dead-letters the failed tokens of a partly delivered message once its retry budget is spent', async () => {
+        const partly = {
+            ...record('m1', { type: 'tokens', title: 't', tokens: ['a', 'down'] }),
+            attributes: { ApproximateReceiveCount: '2' },
+            messageAttributes: { AttemptCount: { stringValue: '3' } },
+        } as unknown as SQSRecord;
+
+        const result = await lambdaHandler(batch(partly), context);
+
+        expect(result.batchItemFailures).toEqual([]);
+        expect(sent.map((m) => m.token)).toEqual(['a']);
+        expect(mockRequeued).toEqual([
+            expect.objectContaining({
+                queueUrl: DLQ_URL,
+                messageAttributes: expect.objectContaining({ FailureCategory: 'transient', SourceMessageId: 'm1' }),
+            }),
+        ]);
+        expect(JSON.parse(mockRequeued[0].body).tokens).toEqual(['down']);
+    });
+
+    it('dead-letters the rest of a partly delivered message it can no longer requeue', async () => {
+        const requeuedTooOften = (messageId: string, tokens: string[]) =>
+            ({
+                ...record(messageId, { type: 'tokens', title: 't', tokens }),
+                messageAttributes: { RequeueCount: { stringValue: '20' } },
+            } as unknown as SQSRecord);
+        // Leave two slots in the current window: 'c' and 'd' are throttled
+        const now = Math.floor(Date.now() / 1000);
+        await redis.hset('{fcm_throttle_key}', 'start', now - 1, 'end', now + 59, 'count', 1197);
+
+        const result = await lambdaHandler(
+            batch(requeuedTooOften('failing', ['a', 'down']), requeuedTooOften('throttled', ['b', 'c', 'd'])),
+            context,
+        );
+
+        expect(result.batchItemFailures).toEqual([]);
+        expect(sent.map((m) => m.token).sort()).toEqual(['a', 'b']);
+        expect(
+            mockRequeued.map((m) => [m.queueUrl, m.messageAttributes?.FailureCategory, JSON.parse(m.body).tokens]),
+        ).toEqual([
+            [DLQ_URL, 'transient', ['down']],
+            [DLQ_URL, 'throttled', ['c', 'd']],
+        ]);
+    });
+
+    it('caps how often a single device is pinged', async () => {
+        const result = await lambdaHandler(
+            batch(record('m1', { type: 'tokens', title: 't', tokens: ['x', 'x', 'x', 'x', 'x', 'x', 'y'] })),
+            context,
+        );
+
+        expect(result.batchItemFailures).toEqual([]);
+        expect(sent.map((m) => m.token).sort()).toEqual(['x', 'x', 'x', 'x', 'x', 'y']);
+        expect(JSON.parse(mockRequeued[0].body).tokens).toEqual(['x']);
+    });
+
+    it('cuts the global cap and pauses every sender when FCM runs out of quota', async () => {
+        const result = await lambdaHandler(
+            batch(
+                record('quota', { type: 'topic', title: 't', topic: 'quota' }),
+                record('paused', { type: 'topic', title: 't', topic: 'all' }),
+            ),
+            context,
+        );
+
+        expect(result.batchItemFailures).toEqual([{ itemIdentifier: 'quota' }]);
+        expect(sent).toHaveLength(0);
+        expect(Number(await redis.hget('{fcm_throttle_key}:adaptive', 'base'))).toBe(600);
+        // Held back until FCM's Retry-After
+        expect(mockRequeued.map((m) => m.body)).toEqual([expect.stringContaining('"topic":"all"')]);
+        expect(mockRequeued[0].delaySeconds).toBeGreaterThanOrEqual(29);
+    });
+
+    it('requeues records instead of failing them when Redis is unreachable', async () => {
+        const refused = Object.assign(new Error('connect ECONNREFUSED 127.0.0.1:6379'), { code: 'ECONNREFUSED' });
+        const evalSpy = jest.spyOn(getRedis(), 'eval').mockRejectedValue(refused);
+
+        const result = await lambdaHandler(batch(record('m1', { type: 'topic', title: 't', topic: 'all' })), context);
+
+        evalSpy.mockRestore();
+        // Fail-closed by default: nothing is sent and nothing heads for the DLQ
+        expect(result.batchItemFailures).toEqual([]);
+        expect(sent).toHaveLength(0);
+        expect(mockRequeued).toHaveLength(1);
+    });
+
+    it('acknowledges a redelivered record without sending it again', async () => {
+        const message = record('m1', { type: 'topic', title: 't', topic: 'all' });
+
+        await lambdaHandler(batch(message), context);
+        const result = await lambdaHandler(batch(message), { ...context, awsRequestId: 'redelivery' });
+
+        expect(result.batchItemFailures).toEqual([]);
+        expect(sent).toHaveLength(1);
+    });
+
+    it('deduplicates messages sharing an idempotency key', async () => {
+        const result = await lambdaHandler(
+            batch(
+                record('m1', { type: 'topic', title: 't', topic: 'all', idempotencyKey: 'order-42' }),
+                record('m2', { type: 'topic', title: 't', topic: 'all', idempotencyKey: 'order-42' }),
+            ),
+            context,
+        );
+
+        expect(result.batchItemFailures).toEqual([]);
+        expect(sent).toHaveLength(1);
+    });
+
+    it('retries a record whose delivery failed or is still in progress elsewhere', async () => {
+        const broken = record('m1', { type: 'topic', title: 't', topic: 'broken' });
+        expect((await lambdaHandler(batch(broken), context)).batchItemFailures).toHaveLength(1);
+        expect(await redis.exists('fcm:idempotency:m1')).toBe(0);
+
+        await redis.set('fcm:idempotency:m2', 'in-progress:other-request:m2', 'EX', 30);
+        const result = await lambdaHandler(batch(record('m2', { type: 'topic', title: 't', topic: 'all' })), context);
+
+        expect(result.batchItemFailures).toEqual([{ itemIdentifier: 'm2' }]);
+        expect(sent).toHaveLength(0);
+    });
+
+    it('dead-letters records FCM rejects for good', async () => {
+        const rejected = record('m1', { type: 'topic', title: 't', topic: 'rejected' });
+
+        const result = await lambdaHandler(batch(rejected), context);
+
+        expect(result.batchItemFailures).toEqual([]);
+        expect(mockRequeued).toEqual([
+            {
+                queueUrl: DLQ_URL,
+                body: rejected.body,
+                messageAttributes: {
+                    FailureCategory: 'permanent',
+                    FailureReason: 'bad',
+                    SourceMessageId: 'm1',
+                },
+            },
+        ]);
+    });
+
+    it('dead-letters records once their retry budget is spent', async () => {
+        const delivery = (receiveCount: number) =>
+            ({
+                ...record(`m${receiveCount}`, { type: 'topic', title: 't', topic: 'broken' }),
+                attributes: { ApproximateReceiveCount: String(receiveCount) },
+            } as SQSRecord);
+
+        const result = await lambdaHandler(batch(delivery(4), delivery(5)), context);
+
+        // FCM being down is retried 5 times by default
+        expect(result.batchItemFailures).toEqual([{ itemIdentifier: 'm4' }]);
+        expect(mockRequeued).toEqual([
+            expect.objectContaining({
+                queueUrl: DLQ_URL,
+                messageAttributes: expect.objectContaining({ FailureCategory: 'transient', SourceMessageId: 'm5' }),
+            }),
+        ]);
+    });
+
+    it('leaves records to the redrive policy when they cannot be dead-lettered', async () => {
+        mockSqsFailure = new Error('AccessDenied');
+
+        const result = await lambdaHandler(
+            batch(record('m1', { type: 'topic', title: 't', topic: 'rejected' })),
+            context,
+        );
+
+        expect(result.batchItemFailures).toEqual([{ itemIdentifier: 'm1' }]);
+    });
+
+    it('reports only throttled and failing records in a mixed batch', async () => {
+        // Leave exactly one slot in the current window
+        const now = Math.floor(Date.now() / 1000);
+        await redis.hset('{fcm_throttle_key}', 'start', now - 1, 'end', now + 59, 'count', 1198);
+        // SQS sends fail, so throttled records fall back to redelivery and the invalid one waits for the redrive policy
+        mockSqsFailure = new Error('AccessDenied');
+
+        const result = await lambdaHandler(
+            batch(
+                record('invalid', '{not json'),
+                record('upstream-down', { type: 'topic', title: 't', topic: 'broken' }),
+                record('sent', { type: 'topic', title: 't', topic: 'all' }),
+                record('throttled', { type: 'topic', title: 't', topic: 'all' }),
+            ),
+            context,
+        );
+
+        expect(result.batchItemFailures).toEqual([
+            { itemIdentifier: 'invalid' },
+            { itemIdentifier: 'upstream-down' },
+            { itemIdentifier: 'throttled' },
+        ]);
+        expect(sent).toHaveLength(1);
+    });
+
+    describe('sendAt', () => {
+        const inSeconds = (seconds: number) => new Date(Date.now() + seconds * 1000).toISOString();
+        const tick = {} as ScheduledEvent;
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        it('delays messages due within a few minutes in SQS', async () => {
+            const result = await lambdaHandler(
+                batch(record('m1', { type: 'topic', title: 't', topic: 'all', sendAt: inSeconds(120) })),
+                context,
+            );
+
+            expect(result.batchItemFailures).toEqual([]);
+            expect(sent).toHaveLength(0);
+            expect(mockRequeued).toHaveLength(1);
+            expect(mockRequeued[0].delaySeconds).toBeGreaterThanOrEqual(119);
+            expect(mockRequeued[0].delaySeconds).toBeLessThanOrEqual(120);
+        });
+
+        it('sends a redelivered record due within a few minutes once', async () => {
+            const delayed = record('m1', { type: 'topic', title: 't', topic: 'all', sendAt: inSeconds(120) });
+            await lambdaHandler(batch(delayed), context);
+            await lambdaHandler(batch(delayed), { ...context, awsRequestId: 'redelivery' });
+            expect(mockRequeued).toHaveLength(2);
+
+            jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 121 * 1000);
+            const copies = mockRequeued.map((input, i) => record(`copy-${i}`, input.body));
+            const result = await lambdaHandler(batch(...copies), context);
+
+            expect(result.batchItemFailures).toEqual([]);
+            expect(sent).toHaveLength(1);
+        });
+
+        it('parks later messages until the scheduled handler dispatches them', async () => {
+            const parked = record('m1', { type: 'topic', title: 't', topic: 'all', sendAt: inSeconds(3600) });
+            expect((await lambdaHandler(batch(parked), context)).batchItemFailures).toEqual([]);
+            expect(await scheduledHandler(tick, context)).toEqual({ dispatched: 0, failed: 0 });
+            expect(sent).toHaveLength(0);
+            expect(await redis.zcard('fcm:scheduled')).toBe(1);
+
+            const later = Date.now() + 3601 * 1000;
+            jest.spyOn(Date, 'now').mockReturnValue(later);
+
+            expect(await scheduledHandler(tick, context)).toEqual({ dispatched: 1, failed: 0 });
+            expect(sent.map((m) => m.topic)).toEqual(['all']);
+            expect(await redis.zcard('fcm:scheduled')).toBe(0);
+        });
+
+        it('sends to devices inside their delivery window and parks the others', async () => {
+            const hhmm = (hoursFromNow: number) =>
+                new Date(Date.now() + hoursFromNow * 3600000).toISOString().slice(11, 16);
+            const message = {
+                type: 'tokens',
+                title: 't',
+                tokens: ['awake', 'asleep'],
+                tokenTimeZones: { asleep: 'Etc/GMT+6' },
+                // Open for two hours in UTC; Etc/GMT+6 is six hours behind, so its window opens in six hours
+                deliveryWindow: { start: hhmm(0), end: hhmm(2) },
+            };
+
+            const result = await lambdaHandler(batch(record('m1', message)), context);
+
+            expect(result.batchItemFailures).toEqual([]);
+            expect(sent.map((m) => m.token)).toEqual(['awake']);
+
+            const [parked] = await redis.zrange('fcm:scheduled', 0, -1);
+            const { id, body } = JSON.parse(parked);
+            expect(id).toMatch(/^m1:window:/);
+            expect(JSON.parse(body)).toMatchObject({
+                tokens: ['asleep'],
+                idempotencyKey: expect.stringMatching(/^m1:window:/),
+            });
+        });
+
+        it('keeps a scheduled message parked when its dispatch fails', async () => {
+            await lambdaHandler(
+                batch(record('m1', { type: 'topic', title: 't', topic: 'broken', sendAt: inSeconds(3600) })),
+                context,
+            );
+            jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 3601 * 1000);
+
+            expect(await scheduledHandler(tick, context)).toEqual({ dispatched: 0, failed: 1 });
+            expect(await redis.zcard('fcm:scheduled')).toBe(1);
+        });
+
+        it('dead-letters a scheduled message once its retry budget is spent', async () => {
+            await lambdaHandler(
+                batch(record('m1', { type: 'topic', title: 't', topic: 'broken', sendAt: inSeconds(3600) })),
+                context,
+            );
+            const start = Date.now();
+
+            // FCM being down is retried 5 times by default, one claim per lease
+            for (let attempt = 1; attempt <= 5; attempt++) {
+                jest.spyOn(Date, 'now').mockReturnValue(start + (3601 + attempt * 60) * 1000);
+                expect(await scheduledHandler(tick, context)).toEqual({ dispatched: 0, failed: 1 });
+            }
+
+            expect(await redis.zcard('fcm:scheduled')).toBe(0);
+            expect(mockRequeued).toEqual([
+                expect.objectContaining({
+                    queueUrl: DLQ_URL,
+                    messageAttributes: expect.objectContaining({ FailureCategory: 'transient', SourceMessageId: 'm1' }),
+                }),
+            ]);
+        });
+    });
+});
@@ -0,0 +1,153 @@
+import { ConfigError, loadConfig } from '../../config';
+
+const REDIS_URL = 'redis://127.0.0.1:6379';
+
+describe('loadConfig', () => {
+    it('applies defaults to unset variables', () => {
+        expect(loadConfig({ REDIS_URL })).toEqual({
+            stage: 'staging',
+            logLevel: 'info',
+            metricsNamespace: 'FCMWorker',
+            redis: { mode: 'standalone', nodes: [{ host: '127.0.0.1', port: 6379 }], tls: false, db: 0 },
+            redisMaxRetries: 3,
+            redisRetryDelayMs: 200,
+            redisConnectTimeoutMs: 10000,
+            throttleKey: 'fcm_throttle_key',
+            windowSeconds: 60,
+            maxPerWindow: 1200,
+            projectMaxPerWindow: 1200,
+            topicMaxPerWindow: 10,
+            tokenMaxPerWindow: 5,
+            limiterFallback: 'fail-closed',
+            maxConcurrency: 10,
+            adaptiveMinPerWindow: 60,
+            adaptiveRecoveryPerWindow: 60,
+            adaptiveMaxPauseSeconds: 300,
+            fcmServiceAccount: undefined,
+            fcmProjectId: undefined,
+            fcmBaseUrl: undefined,
+            tokenChunkSize: 500,
+            sendConcurrency: 10,
+            deadTokenSink: { kind: 'redis', queueUrl: undefined, webhookUrl: undefined },
+            requeueJitterSeconds: 5,
+            maxRequeues: 20,
+            idempotencyTtlSeconds: 86400,
+            retryBudgets: { transient: 5, throttled: 10, infrastructure: 10 },
+            deadLetterQueueArn: undefined,
+            scheduleKey: 'fcm:scheduled',
+            scheduleAheadSeconds: 300,
+            scheduleBatchSize: 100,
+            mainQueueArn: undefined,
+        });
+    });
+
+    it('reads overrides and treats blank values as unset', () => {
+        const config = loadConfig({
+            REDIS_URL: 'rediss://cache:6380',
+            MAX_BATCHES_PER_WINDOW: '600',
+            WINDOW_SECONDS: ' 30 ',
+            LIMITER_FALLBACK: 'local',
+            LOG_LEVEL: 'debug',
+            FCM_PROJECT_ID: 'other-project',
+            FCM_BASE_URL: 'http://localhost:8080',
+            REQUEUE_JITTER_SECONDS: '0',
+            TOPIC_MAX_PER_WINDOW: '',
+        });
+
+        expect(config).toMatchObject({
+            redis: { mode: 'standalone', nodes: [{ host: 'cache', port: 6380 }], tls: true, db: 0 },
+            maxPerWindow: 600,
+            projectMaxPerWindow: 600,
+            adaptiveMinPerWindow: 30,
+            windowSeconds: 30,
+            limiterFallback: 'local',
+            logLevel: 'debug',
+            fcmProjectId: 'other-project',
+            fcmBaseUrl: 'http://localhost:8080',
+            requeueJitterSeconds: 0,
+            topicMaxPerWindow: 10,
+        });
+    });
+
+    it('lists every invalid variable', () => {
+        const load = () =>
+            loadConfig({
+                MAX_BATCHES_PER_WINDOW: '0',
+                WINDOW_SECONDS: '1.5',
+                SEND_CONCURRENCY: 'ten',
+                LIMITER_FALLBACK: 'closed',
+                FCM_BASE_URL: 'ftp://fcm',
+            });
+
+        expect(load).toThrow(ConfigError);
+        try {
+            load();
+        } catch (err) {
+            expect((err as ConfigError).issues.map((i) => i.variable)).toEqual([
+                'MAX_BATCHES_PER_WINDOW',
+                'REDIS_URL',
+                'WINDOW_SECONDS',
+                'LIMITER_FALLBACK',
+                'FCM_BASE_URL',
+                'SEND_CONCURRENCY',
+            ]);
+            expect((err as ConfigError).message).toContain('REDIS_URL: is required');
+            expect((err as ConfigError).message).toContain('SEND_CONCURRENCY: must be an integer >= 1, got "ten"');
+        }
+    });
+
+    it('checks ranges and queue ARNs', () => {
+        expect(() =>
+            loadConfig({ REDIS_URL, SCHEDULE_AHEAD_SECONDS: '901', MAIN_QUEUE_ARN: 'arn:aws:sns:us-east-1:1:topic' }),
+        ).toThrow(
+            'Invalid configuration: SCHEDULE_AHEAD_SECONDS: must be an integer between 0 and 900, got "901"; ' +
+                'MAIN_QUEUE_ARN: Not an SQS queue ARN: arn:aws:sns:us-east-1:1:topic',
+        );
+    });
+
+    it('reads the service account and the dead token sink', () => {
+        const account = { project_id: 'p', client_email: 'worker@p.iam.gserviceaccount.com', private_key: 'key' };
+
+        expect(
+            loadConfig({
+                REDIS_URL,
+                FCM_SERVICE_ACCOUNT: JSON.stringify(account),
+                DEAD_TOKEN_SINK: 'webhook',
+                DEAD_TOKEN_WEBHOOK_URL: 'https://backend/dead-tokens',
+            }),
+        ).toMatchObject({
+            fcmServiceAccount: account,
+            deadTokenSink: { kind: 'webhook', webhookUrl: 'https://backend/dead-tokens' },
+        });
+    });
+
+    it('rejects a malformed service account and a dead token sink without its URL', () => {
+        const issues = (env: NodeJS.ProcessEnv) => {
+            try {
+                loadConfig({ REDIS_URL, ...env });
+            } catch (err) {
+                return (err as ConfigError).issues;
+            }
+            return [];
+        };
+
+        expect(issues({ FCM_SERVICE_ACCOUNT: '{"private_key": "secret"', DEAD_TOKEN_SINK: 'kafka' })).toEqual([
+            { variable: 'FCM_SERVICE_ACCOUNT', message: 'must be a service account JSON key' },
+            { variable: 'DEAD_TOKEN_SINK', message: 'must be one of redis, sqs, webhook, none, got "kafka"' },
+        ]);
+        expect(issues({ FCM_SERVICE_ACCOUNT: '{"project_id": "p"}', DEAD_TOKEN_SINK: 'sqs' })).toEqual([
+            { variable: 'FCM_SERVICE_ACCOUNT', message: 'is missing client_email, private_key' },
+            { variable: 'DEAD_TOKEN_QUEUE_URL', message: 'is required by DEAD_TOKEN_SINK=sqs' },
+        ]);
+        expect(() => loadConfig({ REDIS_URL, FCM_SERVICE_ACCOUNT: '{"private_key": "secret"' })).not.toThrow(/secret/);
+        expect(issues({ DEAD_TOKEN_SINK: 'webhook', DEAD_TOKEN_WEBHOOK_URL: 'backend' })).toEqual([
+            { variable: 'DEAD_TOKEN_WEBHOOK_URL', message: 'must be a URL' },
+        ]);
+    });
+
+    it('rejects a Redis URL with another scheme', () => {
+        expect(() => loadConfig({ REDIS_URL: 'http://cache:6379' })).toThrow(
+            'Invalid configuration: REDIS_URL: must use one of redis, rediss, redis+cluster',
+        );
+    });
+});
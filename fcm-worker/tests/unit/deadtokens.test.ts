@@ -0,0 +1,181 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import Redis from 'ioredis';
+import {
+    DeadToken,
+    DeadTokenSink,
+    collectDeadTokens,
+    createDeadTokenSink,
+    dedupeSink,
+    redisSetSink,
+    sqsQueueSink,
+    webhookSink,
+} from '../../deadtokens';
+import { SendMessageInput, SqsClient } from '../../sqs';
+
+jest.setTimeout(30000);
+
+const fakeSqs = () => {
+    const sent: SendMessageInput[] = [];
+    const client: SqsClient = {
+        sendMessage: async (input) => {
+            sent.push(input);
+        },
+    };
+    return { client, sent };
+};
+
+const dead = (...tokens: string[]): DeadToken[] => tokens.map((token) => ({ token, reason: 'unregistered' }));
+
+describe('collectDeadTokens', () => {
+    it('keeps only unregistered and invalid-argument tokens', () => {
+        expect(
+            collectDeadTokens([
+                { token: 'a', outcome: 'success' },
+                { token: 'b', outcome: 'unregistered' },
+                { token: 'c', outcome: 'invalid-argument' },
+                { token: 'd', outcome: 'unavailable' },
+            ]),
+        ).toEqual([
+            { token: 'b', reason: 'unregistered' },
+            { token: 'c', reason: 'invalid-argument' },
+        ]);
+    });
+});
+
+describe('sqsQueueSink', () => {
+    it('sends one message per publish', async () => {
+        const { client, sent } = fakeSqs();
+
+        await sqsQueueSink(client, 'https://queue').publish('app', dead('a', 'b'));
+        await sqsQueueSink(client, 'https://queue').publish('app', []);
+
+        expect(sent).toEqual([
+            { queueUrl: 'https://queue', body: JSON.stringify({ app: 'app', tokens: dead('a', 'b') }) },
+        ]);
+    });
+});
+
+describe('webhookSink', () => {
+    let server: http.Server;
+    let url: string;
+    let bodies: unknown[];
+    let status: number;
+    let delayMs: number;
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            let body = '';
+            req.on('data', (chunk) => (body += chunk));
+            req.on('end', () => {
+                bodies.push(JSON.parse(body));
+                res.statusCode = status;
+                setTimeout(() => res.end(), delayMs);
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/dead-tokens`;
+    });
+
+    afterAll(async () => {
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+    });
+
+    beforeEach(() => {
+        bodies = [];
+        status = 204;
+        delayMs = 0;
+    });
+
+    it('posts the tokens as JSON', async () => {
+        await webhookSink(url).publish('app', dead('a'));
+
+        expect(bodies).toEqual([{ app: 'app', tokens: dead('a') }]);
+    });
+
+    it('throws on a non-2xx response', async () => {
+        status = 500;
+
+        await expect(webhookSink(url).publish('app', dead('a'))).rejects.toThrow(
+            'Dead token webhook responded with 500',
+        );
+    });
+
+    it('gives up on a webhook that does not respond in time', async () => {
+        delayMs = 500;
+
+        await expect(webhookSink(url, 50).publish('app', dead('a'))).rejects.toThrow(
+            'Dead token webhook did not respond within 50ms',
+        );
+    });
+});
+
+describe('Redis backed sinks', () => {
+    let redis: Redis;
+
+    beforeAll(async () => {
+        redis = new Redis({
+            host: '127.0.0.1',
+            port: 6379,
+            connectTimeout: 2000,
+        });
+        await redis.ping();
+    });
+
+    afterAll(async () => {
+        await redis.quit();
+    });
+
+    beforeEach(async () => {
+        await redis.flushall();
+    });
+
+    it('adds tokens to a set per app', async () => {
+        const sink = redisSetSink(redis);
+
+        await sink.publish('app-a', dead('a', 'b'));
+        await sink.publish('app-a', dead('b'));
+        await sink.publish('app-b', dead('c'));
+
+        expect((await redis.smembers('fcm:dead_tokens:app-a')).sort()).toEqual(['a', 'b']);
+        expect(await redis.smembers('fcm:dead_tokens:app-b')).toEqual(['c']);
+    });
+
+    it('only forwards tokens that have not been reported yet', async () => {
+        const published: DeadToken[][] = [];
+        const inner: DeadTokenSink = {
+            publish: async (_app, tokens) => {
+                published.push(tokens);
+            },
+        };
+        const sink = dedupeSink(inner, redis, 60);
+
+        await sink.publish('app', dead('a', 'b'));
+        await sink.publish('app', dead('b', 'c'));
+        await sink.publish('other-app', dead('a'));
+
+        expect(published).toEqual([dead('a', 'b'), dead('c'), dead('a')]);
+
+        const keys = await redis.keys('fcm:dead_token_seen:{app}:*');
+        expect(keys).toHaveLength(3);
+        expect(await redis.ttl(keys[0])).toBeGreaterThan(0);
+    });
+
+    it('builds the sink selected by DEAD_TOKEN_SINK', async () => {
+        const { client, sent } = fakeSqs();
+
+        expect(createDeadTokenSink({ kind: 'none' }, redis, () => client)).toBeUndefined();
+
+        await createDeadTokenSink({ kind: 'redis' }, redis, () => client)?.publish('app', dead('a'));
+        expect(await redis.smembers('fcm:dead_tokens:app')).toEqual(['a']);
+
+        const sqsSink = createDeadTokenSink({ kind: 'sqs', queueUrl: 'https://queue' }, redis, () => client);
+        await sqsSink?.publish('app', dead('a'));
+        await sqsSink?.publish('app', dead('a'));
+        expect(sent).toHaveLength(1);
+
+        expect(() => createDeadTokenSink({ kind: 'sqs' }, redis, () => client)).toThrow(
+            'DEAD_TOKEN_QUEUE_URL is not set',
+        );
+    });
+});
@@ -0,0 +1,158 @@
+import Redis from 'ioredis';
+import {
+    CircuitBreaker,
+    LimiterFallback,
+    LocalTokenBucket,
+    createLimiterFallback,
+    isRedisUnavailable,
+} from '../../degraded';
+import { throttle } from '../../throttle';
+
+const refused = () => Object.assign(new Error('connect ECONNREFUSED 127.0.0.1:6379'), { code: 'ECONNREFUSED' });
+
+const fakeRedis = (status = 'ready') => ({ status, connect: jest.fn() } as unknown as Redis);
+
+const allowed = { allowed: true, decaysAt: 0, remaining: 4, granted: 1 };
+
+describe('isRedisUnavailable', () => {
+    it('recognizes connectivity errors', () => {
+        expect(isRedisUnavailable(refused())).toBe(true);
+        expect(isRedisUnavailable(new Error("Stream isn't writeable and enableOfflineQueue options is false"))).toBe(
+            true,
+        );
+        expect(isRedisUnavailable(new Error('anything'), fakeRedis('end'))).toBe(true);
+    });
+
+    it('ignores errors the server answered with', () => {
+        expect(isRedisUnavailable(new Error('ERR Error running script'), fakeRedis())).toBe(false);
+        expect(isRedisUnavailable(new Error('Invalid limiter cost: 0'))).toBe(false);
+    });
+});
+
+describe('CircuitBreaker', () => {
+    it('opens after the failure threshold and lets one probe through after the reset delay', () => {
+        let now = 0;
+        const breaker = new CircuitBreaker({ failureThreshold: 2, resetAfterMs: 1000, now: () => now });
+
+        breaker.recordFailure();
+        expect(breaker.state).toBe('closed');
+        breaker.recordFailure();
+        expect(breaker.state).toBe('open');
+        expect(breaker.allowRequest()).toBe(false);
+
+        now = 1000;
+        expect(breaker.state).toBe('half-open');
+        expect(breaker.allowRequest()).toBe(true);
+        expect(breaker.allowRequest()).toBe(false);
+
+        // A failed probe re-opens for another reset delay
+        breaker.recordFailure();
+        expect(breaker.state).toBe('open');
+        expect(breaker.retryAt()).toBe(2000);
+
+        now = 2000;
+        expect(breaker.allowRequest()).toBe(true);
+        breaker.recordSuccess();
+        expect(breaker.state).toBe('closed');
+    });
+});
+
+describe('LocalTokenBucket', () => {
+    it('allows the capacity, then refills evenly', () => {
+        let now = 0;
+        const bucket = new LocalTokenBucket(2, 60, () => now);
+
+        expect(bucket.take()).toMatchObject({ allowed: true, remaining: 1 });
+        expect(bucket.take()).toMatchObject({ allowed: true, remaining: 0 });
+
+        const rejected = bucket.take();
+        expect(rejected).toMatchObject({ allowed: false, granted: 0 });
+        expect(rejected.decaysAt).toBe(30);
+
+        now = 30_000;
+        expect(bucket.take().allowed).toBe(true);
+    });
+});
+
+describe('LimiterFallback', () => {
+    it('passes Redis results through and keeps the breaker closed', async () => {
+        const fallback = new LimiterFallback('fail-open');
+
+        expect(await fallback.acquire(fakeRedis(), async () => allowed)).toBe(allowed);
+        expect(fallback.breaker.state).toBe('closed');
+    });
+
+    it('answers with the policy on connectivity errors', async () => {
+        const failing = async () => {
+            throw refused();
+        };
+
+        const open = await new LimiterFallback('fail-open').acquire(fakeRedis(), failing, 3);
+        const closed = await new LimiterFallback('fail-closed').acquire(fakeRedis(), failing);
+        const local = await new LimiterFallback('local', new CircuitBreaker(), new LocalTokenBucket(1, 60)).acquire(
+            fakeRedis(),
+            failing,
+        );
+
+        expect(open).toMatchObject({ allowed: true, granted: 3, degraded: true });
+        expect(closed).toMatchObject({ allowed: false, degraded: true });
+        expect(local).toMatchObject({ allowed: true, remaining: 0, degraded: true });
+    });
+
+    it('rethrows errors that are not about connectivity', async () => {
+        const fallback = new LimiterFallback('fail-open');
+
+        await expect(
+            fallback.acquire(fakeRedis(), async () => {
+                throw new Error('ERR Error running script');
+            }),
+        ).rejects.toThrow('ERR Error running script');
+        expect(fallback.breaker.state).toBe('closed');
+    });
+
+    it('stops calling Redis while the breaker is open and reconnects when probing', async () => {
+        let now = 0;
+        const breaker = new CircuitBreaker({ failureThreshold: 1, resetAfterMs: 1000, now: () => now });
+        const fallback = new LimiterFallback('fail-closed', breaker);
+        const redis = fakeRedis('end');
+        const acquire = jest.fn().mockRejectedValueOnce(refused()).mockResolvedValue(allowed);
+
+        await fallback.acquire(redis, acquire);
+        const whileOpen = await fallback.acquire(redis, acquire);
+
+        expect(acquire).toHaveBeenCalledTimes(1);
+        expect(whileOpen.decaysAt).toBe(1);
+
+        now = 1000;
+        expect(await fallback.acquire(redis, acquire)).toBe(allowed);
+        expect(redis.connect).toHaveBeenCalledTimes(2);
+        expect(breaker.state).toBe('closed');
+    });
+
+    it('is used by limiter builders', async () => {
+        const redis = { status: 'ready', eval: jest.fn().mockRejectedValue(refused()) } as unknown as Redis;
+        const callback = jest.fn().mockResolvedValue('sent');
+
+        const result = await throttle(redis, 'degraded')
+            .allow(1)
+            .block(0)
+            .fallback(new LimiterFallback('fail-open'))
+            .then(callback);
+
+        expect(result).toBe('sent');
+        expect(callback.mock.calls[0][0]).toMatchObject({ allowed: true, degraded: true });
+    });
+});
+
+describe('createLimiterFallback', () => {
+    const options = { localMaxLocks: 120, windowSeconds: 60 };
+
+    it('defaults to fail-closed and sizes the local bucket', () => {
+        expect(createLimiterFallback(undefined, options).policy).toBe('fail-closed');
+        expect(createLimiterFallback('local', options).bucket?.capacity).toBe(120);
+    });
+
+    it('rejects unknown policies', () => {
+        expect(() => createLimiterFallback('maybe', options)).toThrow('Unknown LIMITER_FALLBACK: maybe');
+    });
+});
@@ -0,0 +1,98 @@
+import { dlqCli, parseDeadLetterArgs } from '../../dlq-cli';
+import { DeadLetterAdmin, withoutTokens } from '../../dlq';
+
+const fakeAdmin = () => ({
+    list: jest.fn(async () => [
+        {
+            messageId: 'm1',
+            body: '{"version":1,"type":"topic","topic":"news"}',
+            message: { version: 1 as const, type: 'topic' as const, topic: 'news' },
+            category: 'transient',
+            reason: 'Unavailable',
+            sentAt: Date.parse('2024-05-01T00:00:00Z'),
+            receiveCount: 2,
+        },
+        { messageId: 'm2', body: '{not json', sentAt: Date.parse('2024-05-01T00:01:00Z'), receiveCount: 12 },
+    ]),
+    redrive: jest.fn(async () => ({ redriven: ['m1'], dropped: [], skipped: [] })),
+});
+
+describe('parseDeadLetterArgs', () => {
+    it('reads filters and redrive options', () => {
+        expect(
+            parseDeadLetterArgs([
+                'redrive',
+                '--type',
+                'tokens',
+                '--category',
+                'transient',
+                '--older-than',
+                '3600',
+                '--id',
+                'm1',
+                '--id',
+                'm2',
+                '--drop-token',
+                'stale',
+                '--drop-dead-tokens',
+                '--limit',
+                '10',
+                '--dry-run',
+            ]),
+        ).toEqual({
+            action: 'redrive',
+            filter: { ids: ['m1', 'm2'], type: 'tokens', category: 'transient', minAgeSeconds: 3600 },
+            limit: 10,
+            dryRun: true,
+            dropTokens: ['stale'],
+            dropDeadTokens: true,
+        });
+    });
+
+    it('rejects unknown commands, types, flags and numbers', () => {
+        expect(parseDeadLetterArgs([])).toBeUndefined();
+        expect(parseDeadLetterArgs(['purge'])).toBeUndefined();
+        expect(parseDeadLetterArgs(['list', '--type', 'email'])).toBeUndefined();
+        expect(parseDeadLetterArgs(['list', '--limit', 'ten'])).toBeUndefined();
+        expect(parseDeadLetterArgs(['list', '--force'])).toBeUndefined();
+    });
+});
+
+describe('dlqCli', () => {
+    it('lists dead letters one JSON per line, with the raw body only when it is invalid', async () => {
+        const admin = fakeAdmin();
+        const lines: string[] = [];
+
+        expect(await dlqCli(admin, ['list', '--topic', 'news'], (line) => lines.push(line))).toBe(0);
+
+        expect(admin.list).toHaveBeenCalledWith({ topic: 'news' }, undefined);
+        expect(lines.map((line) => JSON.parse(line))).toEqual([
+            expect.objectContaining({ messageId: 'm1', category: 'transient', sentAt: '2024-05-01T00:00:00.000Z' }),
+            expect.objectContaining({ messageId: 'm2', body: '{not json' }),
+        ]);
+        expect(JSON.parse(lines[0])).not.toHaveProperty('body');
+    });
+
+    it('redrives with the dead-token rewrite and prints the result', async () => {
+        const admin = fakeAdmin();
+        const deadTokens = jest.fn(async () => withoutTokens(['dead']));
+        const lines: string[] = [];
+
+        await dlqCli(admin, ['redrive', '--drop-dead-tokens'], (line) => lines.push(line), deadTokens);
+
+        expect(deadTokens).toHaveBeenCalled();
+        expect(admin.redrive).toHaveBeenCalledWith(
+            expect.anything(),
+            expect.objectContaining({ rewrite: expect.any(Function) }),
+        );
+        expect(JSON.parse(lines[0])).toEqual({ redriven: ['m1'], dropped: [], skipped: [] });
+    });
+
+    it('prints usage for invalid arguments', async () => {
+        const admin: DeadLetterAdmin = fakeAdmin();
+        const lines: string[] = [];
+
+        expect(await dlqCli(admin, ['redrive', 'everything'], (line) => lines.push(line))).toBe(1);
+        expect(lines[0]).toContain('Usage: npm run dlq');
+    });
+});
@@ -0,0 +1,264 @@
+import Redis from 'ioredis';
+import { deadTokensKey } from '../../deadtokens';
+import {
+    DeadLetterFilter,
+    RedriveOptions,
+    deadLetterAdmin,
+    runDeadLetterCommand,
+    withoutDeadTokens,
+    withoutTokens,
+} from '../../dlq';
+import { NotificationMessage, TokensMessage } from '../../message';
+import { QueueMessage, ReceiveMessagesInput, SendMessageInput, SqsQueueClient } from '../../sqs';
+
+const DLQ_URL = 'https://sqs.ap-southeast-1.amazonaws.com/123456789012/fcm-main-queue-sqs-dlq-staging';
+const MAIN_URL = 'https://sqs.ap-southeast-1.amazonaws.com/123456789012/fcm-main-queue-sqs-staging';
+
+const tokens = (list: string[]): TokensMessage => ({ version: 1, type: 'tokens', title: 't', tokens: list });
+const topic = (name: string): NotificationMessage => ({ version: 1, type: 'topic', title: 't', topic: name });
+
+/**
+ * In-memory SQS: received messages stay hidden until their visibility timeout passes on `clock`.
+ */
+const fakeQueues = (clock: { now: number }) => {
+    const queues = new Map<string, Array<QueueMessage & { visibleAt: number }>>();
+    const queue = (url: string) => {
+        if (!queues.has(url)) {
+            queues.set(url, []);
+        }
+        return queues.get(url) ?? [];
+    };
+    let ids = 0;
+
+    const client: SqsQueueClient = {
+        sendMessage: jest.fn(async ({ queueUrl, body, messageAttributes = {} }: SendMessageInput) => {
+            const id = `m${++ids}`;
+            queue(queueUrl).push({
+                messageId: id,
+                receiptHandle: '',
+                body,
+                messageAttributes,
+                sentTimestamp: clock.now,
+                receiveCount: 0,
+                visibleAt: clock.now,
+            });
+        }),
+        receiveMessages: jest.fn(async ({ queueUrl, maxMessages = 10, visibilityTimeout = 30 }: ReceiveMessagesInput) =>
+            queue(queueUrl)
+                .filter((message) => message.visibleAt <= clock.now)
+                .slice(0, maxMessages)
+                .map((message) => {
+                    message.visibleAt = clock.now + visibilityTimeout * 1000;
+                    message.receiveCount++;
+                    message.receiptHandle = `${message.messageId}:${message.receiveCount}`;
+                    const received: QueueMessage = {
+                        messageId: message.messageId,
+                        receiptHandle: message.receiptHandle,
+                        body: message.body,
+                        messageAttributes: { ...message.messageAttributes },
+                        sentTimestamp: message.sentTimestamp,
+                        receiveCount: message.receiveCount,
+                    };
+                    return received;
+                }),
+        ),
+        deleteMessage: jest.fn(async (queueUrl: string, receiptHandle: string) => {
+            const messages = queue(queueUrl);
+            const i = messages.findIndex((message) => message.receiptHandle === receiptHandle);
+            if (i >= 0) {
+                messages.splice(i, 1);
+            }
+        }),
+    };
+
+    const deadLetter = (message: NotificationMessage | string, category?: string, reason = 'boom') =>
+        client.sendMessage({
+            queueUrl: DLQ_URL,
+            body: typeof message === 'string' ? message : JSON.stringify(message),
+            messageAttributes: category ? { FailureCategory: category, FailureReason: reason } : undefined,
+        });
+
+    return { client, queue, deadLetter };
+};
+
+describe('deadLetterAdmin', () => {
+    let clock: { now: number };
+    let sqs: ReturnType<typeof fakeQueues>;
+    const admin = () =>
+        deadLetterAdmin(sqs.client, { deadLetterQueueUrl: DLQ_URL, mainQueueUrl: MAIN_URL, now: () => clock.now });
+
+    beforeEach(() => {
+        clock = { now: Date.parse('2024-05-01T00:00:00Z') };
+        sqs = fakeQueues(clock);
+    });
+
+    it('lists dead letters with their failure category and reason, oldest first', async () => {
+        await sqs.deadLetter(tokens(['a']), 'permanent', 'Requested entity was not found.');
+        clock.now += 1000;
+        await sqs.deadLetter(topic('news'));
+        clock.now += 1000;
+        await sqs.deadLetter('{not json', 'transient');
+
+        const letters = await admin().list();
+
+        expect(letters).toEqual([
+            expect.objectContaining({
+                messageId: 'm1',
+                message: tokens(['a']),
+                category: 'permanent',
+                reason: 'Requested entity was not found.',
+                sentAt: Date.parse('2024-05-01T00:00:00Z'),
+                receiveCount: 1,
+            }),
+            // Moved by the redrive policy, without failure attributes
+            expect.objectContaining({ messageId: 'm2', message: topic('news'), category: undefined }),
+            expect.objectContaining({ messageId: 'm3', message: undefined, body: '{not json' }),
+        ]);
+    });
+
+    it('scans past the first batch and visits each message once', async () => {
+        for (let i = 0; i < 25; i++) {
+            await sqs.deadLetter(topic(`t${i}`));
+        }
+
+        expect(await admin().list()).toHaveLength(25);
+        expect(await admin().list({}, 12)).toHaveLength(0);
+
+        // Listed messages come back once their visibility timeout passes
+        clock.now += 30000;
+        expect(await admin().list({}, 12)).toHaveLength(12);
+    });
+
+    it('filters by type, topic, category, id and age', async () => {
+        await sqs.deadLetter(tokens(['a']), 'permanent');
+        await sqs.deadLetter(topic('news'), 'transient');
+        clock.now += 3600 * 1000;
+        await sqs.deadLetter(topic('sports'), 'transient');
+
+        const ids = async (filter: Parameters<ReturnType<typeof admin>['list']>[0]) => {
+            const letters = await admin().list(filter);
+            clock.now += 30000;
+            return letters.map((letter) => letter.messageId);
+        };
+
+        expect(await ids({ type: 'topic' })).toEqual(['m2', 'm3']);
+        expect(await ids({ topic: 'sports' })).toEqual(['m3']);
+        expect(await ids({ category: 'permanent' })).toEqual(['m1']);
+        expect(await ids({ ids: ['m1', 'm3'] })).toEqual(['m1', 'm3']);
+        expect(await ids({ minAgeSeconds: 1800 })).toEqual(['m1', 'm2']);
+        expect(await ids({ maxAgeSeconds: 1800, type: 'topic' })).toEqual(['m3']);
+    });
+
+    it('redrives matching messages to the main queue without their failure attributes', async () => {
+        await sqs.deadLetter(topic('news'), 'transient');
+        await sqs.deadLetter(topic('sports'), 'transient');
+
+        const result = await admin().redrive({ topic: 'news' });
+
+        expect(result).toEqual({ redriven: ['m1'], dropped: [], skipped: [] });
+        expect(sqs.queue(MAIN_URL)).toEqual([
+            expect.objectContaining({ body: JSON.stringify(topic('news')), messageAttributes: {} }),
+        ]);
+        expect(sqs.queue(DLQ_URL).map((message) => message.messageId)).toEqual(['m2']);
+    });
+
+    it('rewrites before redriving and deletes messages the rewrite drops', async () => {
+        await sqs.deadLetter({ ...tokens(['dead', 'live']), tokenTimeZones: { dead: 'UTC', live: 'Asia/Bangkok' } });
+        await sqs.deadLetter(tokens(['dead']));
+        await sqs.deadLetter('{not json');
+
+        const result = await admin().redrive({}, { rewrite: withoutTokens(['dead']) });
+
+        expect(result).toEqual({ redriven: ['m1'], dropped: ['m2'], skipped: ['m3'] });
+        expect(sqs.queue(MAIN_URL).map((message) => JSON.parse(message.body))).toEqual([
+            { ...tokens(['live']), tokenTimeZones: { live: 'Asia/Bangkok' } },
+        ]);
+        // Invalid bodies stay for someone to look at
+        expect(sqs.queue(DLQ_URL).map((message) => message.messageId)).toEqual(['m3']);
+    });
+
+    it('changes nothing on a dry run', async () => {
+        await sqs.deadLetter(tokens(['dead', 'live']));
+        await sqs.deadLetter(tokens(['dead']));
+
+        const result = await admin().redrive({}, { rewrite: withoutTokens(['dead']), dryRun: true });
+
+        expect(result).toEqual({ redriven: ['m1'], dropped: ['m2'], skipped: [] });
+        expect(sqs.client.sendMessage).toHaveBeenCalledTimes(2);
+        expect(sqs.client.deleteMessage).not.toHaveBeenCalled();
+        expect(sqs.queue(DLQ_URL)).toHaveLength(2);
+    });
+
+    it('stops after the limit', async () => {
+        for (let i = 0; i < 5; i++) {
+            await sqs.deadLetter(topic('news'));
+        }
+
+        expect((await admin().redrive({}, { limit: 3 })).redriven).toEqual(['m1', 'm2', 'm3']);
+        expect(sqs.queue(DLQ_URL)).toHaveLength(2);
+    });
+});
+
+describe('runDeadLetterCommand', () => {
+    const fakeAdmin = () => ({
+        list: jest.fn(async () => []),
+        redrive: jest.fn(async (filter?: DeadLetterFilter, options?: RedriveOptions) => ({
+            redriven: [],
+            dropped: [],
+            skipped: [],
+        })),
+    });
+
+    it('chains the token rewrites of a redrive', async () => {
+        const admin = fakeAdmin();
+        const deadTokens = jest.fn(async () => withoutTokens(['dead']));
+
+        await runDeadLetterCommand(
+            admin,
+            { action: 'redrive', filter: { type: 'tokens' }, dropTokens: ['stale'], dropDeadTokens: true, limit: 5 },
+            deadTokens,
+        );
+
+        const [filter, options] = admin.redrive.mock.calls[0];
+        expect(filter).toEqual({ type: 'tokens' });
+        expect(options?.limit).toBe(5);
+        expect(await options?.rewrite?.(tokens(['stale', 'dead', 'live']))).toEqual(tokens(['live']));
+    });
+
+    it('refuses to drop dead tokens without a way to read them', async () => {
+        await expect(runDeadLetterCommand(fakeAdmin(), { action: 'redrive', dropDeadTokens: true })).rejects.toThrow(
+            'dead-token sink',
+        );
+    });
+});
+
+describe('withoutDeadTokens', () => {
+    let redis: Redis;
+
+    beforeAll(async () => {
+        redis = new Redis({
+            host: '127.0.0.1',
+            port: 6379,
+            connectTimeout: 2000,
+        });
+        await redis.ping();
+    });
+
+    afterAll(async () => {
+        await redis.quit();
+    });
+
+    beforeEach(async () => {
+        await redis.flushall();
+    });
+
+    it('removes the tokens the dead-token sink recorded for the project', async () => {
+        await redis.sadd(deadTokensKey('my-project'), 'dead-1', 'dead-2');
+        const rewrite = withoutDeadTokens(redis, 'my-project');
+
+        expect(await rewrite(tokens(['dead-1', 'live', 'dead-2']))).toEqual(tokens(['live']));
+        expect(await rewrite(tokens(['dead-1']))).toBeUndefined();
+        expect(await rewrite(topic('news'))).toEqual(topic('news'));
+        expect(await withoutDeadTokens(redis, 'other-project')(tokens(['dead-1']))).toEqual(tokens(['dead-1']));
+    });
+});
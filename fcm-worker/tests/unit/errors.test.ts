@@ -0,0 +1,74 @@
+import { ReplyError } from 'ioredis';
+import { ConfigError } from '../../config';
+import {
+    InfrastructureError,
+    PermanentUpstreamError,
+    ThrottledError,
+    TransientUpstreamError,
+    classifyError,
+    errorDisposition,
+} from '../../errors';
+import { FcmError } from '../../fcm';
+import { MessageValidationError, parseMessage } from '../../message';
+import { LimiterTimeoutException } from '../../throttle';
+
+const budgets = { transient: 3, throttled: 10, infrastructure: 5 };
+
+describe('classifyError', () => {
+    it('reads the category of the worker errors', () => {
+        expect(classifyError(new MessageValidationError([{ path: '$', message: 'must be an object' }]))).toBe(
+            'validation',
+        );
+        expect(classifyError(new ThrottledError('busy', 1000))).toBe('throttled');
+        expect(classifyError(new LimiterTimeoutException(1000))).toBe('throttled');
+        expect(classifyError(new TransientUpstreamError('down'))).toBe('transient');
+        expect(classifyError(new PermanentUpstreamError('rejected'))).toBe('permanent');
+        expect(classifyError(new ConfigError([{ variable: 'REDIS_URL', message: 'is required' }]))).toBe(
+            'infrastructure',
+        );
+    });
+
+    it('classifies invalid record bodies as validation errors', () => {
+        expect.assertions(1);
+        try {
+            parseMessage('{not json');
+        } catch (err) {
+            expect(classifyError(err)).toBe('validation');
+        }
+    });
+
+    it('splits FCM errors into transient and permanent ones', () => {
+        expect(classifyError(new FcmError('quota', 429, 'RESOURCE_EXHAUSTED', 30))).toBe('transient');
+        expect(classifyError(new FcmError('down', 503, 'UNAVAILABLE'))).toBe('transient');
+        expect(classifyError(new FcmError('bad', 400, 'INVALID_ARGUMENT'))).toBe('permanent');
+        expect(classifyError(new FcmError('gone', 404, 'UNREGISTERED'))).toBe('permanent');
+        // The worker's own credentials were rejected, not the message
+        expect(classifyError(new FcmError('expired', 401, 'UNAUTHENTICATED'))).toBe('infrastructure');
+    });
+
+    it('blames Redis failures on the infrastructure', () => {
+        const refused = Object.assign(new Error('connect ECONNREFUSED 127.0.0.1:6379'), { code: 'ECONNREFUSED' });
+        expect(classifyError(refused)).toBe('infrastructure');
+        expect(classifyError(new ReplyError('ERR Error running script'))).toBe('infrastructure');
+        expect(classifyError(new InfrastructureError('no queue'))).toBe('infrastructure');
+    });
+
+    it('treats anything else as transient', () => {
+        expect(classifyError(new TypeError('fetch failed'))).toBe('transient');
+        expect(classifyError('boom')).toBe('transient');
+    });
+});
+
+describe('errorDisposition', () => {
+    it('drops invalid records and dead-letters permanent failures right away', () => {
+        expect(errorDisposition('validation', 1, budgets)).toBe('drop');
+        expect(errorDisposition('permanent', 1, budgets)).toBe('dead-letter');
+    });
+
+    it('retries the other categories until their budget is spent', () => {
+        expect(errorDisposition('transient', 2, budgets)).toBe('retry');
+        expect(errorDisposition('transient', 3, budgets)).toBe('dead-letter');
+        expect(errorDisposition('throttled', 9, budgets)).toBe('retry');
+        expect(errorDisposition('infrastructure', 5, budgets)).toBe('dead-letter');
+    });
+});
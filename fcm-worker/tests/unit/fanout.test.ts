@@ -0,0 +1,163 @@
+import Redis from 'ioredis';
+import { FcmError } from '../../fcm';
+import { chunk, classifySendError, fanOut } from '../../fanout';
+import { throttle, throttleAll } from '../../throttle';
+
+jest.setTimeout(30000);
+
+const fcmError = (status: number, code: string) => new FcmError(code, status, code);
+
+describe('chunk', () => {
+    it('splits items into bounded chunks', () => {
+        expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+        expect(chunk([], 3)).toEqual([]);
+    });
+
+    it('rejects a chunk size below 1', () => {
+        expect(() => chunk([1], 0)).toThrow('chunk size must be at least 1');
+    });
+});
+
+describe('classifySendError', () => {
+    it('maps FCM error codes to token outcomes', () => {
+        expect(classifySendError(fcmError(404, 'UNREGISTERED'))).toBe('unregistered');
+        expect(classifySendError(fcmError(400, 'INVALID_ARGUMENT'))).toBe('invalid-argument');
+        expect(classifySendError(fcmError(429, 'QUOTA_EXCEEDED'))).toBe('quota-exceeded');
+        expect(classifySendError(fcmError(429, '429'))).toBe('quota-exceeded');
+        expect(classifySendError(fcmError(503, 'UNAVAILABLE'))).toBe('unavailable');
+        expect(classifySendError(fcmError(502, '502'))).toBe('unavailable');
+        expect(classifySendError(fcmError(403, 'SENDER_ID_MISMATCH'))).toBe('failed');
+    });
+
+    it('treats transport errors as unavailable', () => {
+        expect(classifySendError(new TypeError('fetch failed'))).toBe('unavailable');
+    });
+});
+
+describe('fanOut', () => {
+    it('aggregates per-token outcomes', async () => {
+        const errors: Record<string, FcmError> = {
+            dead: fcmError(404, 'UNREGISTERED'),
+            bad: fcmError(400, 'INVALID_ARGUMENT'),
+            busy: fcmError(503, 'UNAVAILABLE'),
+        };
+        const send = jest.fn(async (token: string) => {
+            if (errors[token]) {
+                throw errors[token];
+            }
+            return `name-${token}`;
+        });
+
+        const { results, counts } = await fanOut(['a', 'dead', 'bad', 'busy', 'b'], send, { chunkSize: 2 });
+
+        expect(send).toHaveBeenCalledTimes(5);
+        expect(results).toEqual([
+            { token: 'a', outcome: 'success', name: 'name-a' },
+            { token: 'dead', outcome: 'unregistered', error: 'UNREGISTERED' },
+            { token: 'bad', outcome: 'invalid-argument', error: 'INVALID_ARGUMENT' },
+            { token: 'busy', outcome: 'unavailable', error: 'UNAVAILABLE' },
+            { token: 'b', outcome: 'success', name: 'name-b' },
+        ]);
+        expect(counts).toMatchObject({ success: 2, unregistered: 1, 'invalid-argument': 1, unavailable: 1 });
+    });
+
+    it('never has more than `concurrency` sends in flight', async () => {
+        let inFlight = 0;
+        let maxInFlight = 0;
+        const send = async (token: string) => {
+            inFlight++;
+            maxInFlight = Math.max(maxInFlight, inFlight);
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            inFlight--;
+            return token;
+        };
+
+        const tokens = Array.from({ length: 20 }, (_, i) => `t${i}`);
+        const { counts } = await fanOut(tokens, send, { chunkSize: 8, concurrency: 3 });
+
+        expect(counts.success).toBe(20);
+        expect(maxInFlight).toBe(3);
+    });
+
+    describe('with a limiter', () => {
+        let redis: Redis;
+
+        beforeAll(async () => {
+            redis = new Redis({
+                host: '127.0.0.1',
+                port: 6379,
+                connectTimeout: 2000,
+            });
+            await redis.ping();
+        });
+
+        afterAll(async () => {
+            await redis.quit();
+        });
+
+        beforeEach(async () => {
+            await redis.flushall();
+        });
+
+        it('consumes one slot per send and reports the rest as throttled', async () => {
+            const send = jest.fn(async (token: string) => token);
+            const limiter = () => throttle(redis, 'fanout_per_send').allow(3).every(60).block(0);
+
+            const onAcquire = jest.fn();
+
+            const { results, counts } = await fanOut(['a', 'b', 'c', 'd', 'e'], send, {
+                concurrency: 1,
+                limiter,
+                onAcquire,
+            });
+
+            expect(send).toHaveBeenCalledTimes(3);
+            // Every answer is reported, the rejection that stopped the fan-out included
+            expect(onAcquire.mock.calls.map(([info]) => [info.allowed, info.remaining])).toEqual([
+                [true, 2],
+                [true, 1],
+                [true, 0],
+                [false, 0],
+            ]);
+            expect(counts).toMatchObject({ success: 3, throttled: 2 });
+            expect(results.slice(3)).toEqual([
+                { token: 'd', outcome: 'throttled' },
+                { token: 'e', outcome: 'throttled' },
+            ]);
+        });
+
+        it('consumes one slot per chunk when limitPer is chunk', async () => {
+            const send = jest.fn(async (token: string) => token);
+            const limiter = () => throttle(redis, 'fanout_per_chunk').allow(2).every(60).block(0);
+
+            const { counts } = await fanOut(['a', 'b', 'c', 'd', 'e'], send, {
+                chunkSize: 2,
+                limiter,
+                limitPer: 'chunk',
+            });
+
+            expect(send).toHaveBeenCalledTimes(4);
+            expect(counts).toMatchObject({ success: 4, throttled: 1 });
+        });
+
+        it('defers only the token when a token-scoped rule rejects', async () => {
+            const send = jest.fn(async (token: string) => token);
+            const limiter = (token?: string) =>
+                throttleAll(redis)
+                    .rule('fanout_global', 100, 60, 'global')
+                    .rule(`fanout_token:${token}`, 1, 60, 'token')
+                    .block(0);
+
+            const { results, counts, throttledUntil } = await fanOut(['a', 'a', 'b'], send, {
+                concurrency: 1,
+                limiter,
+                tokenScoped: (info) => info.rejectedBy === 'token',
+            });
+
+            expect(send).toHaveBeenCalledTimes(2);
+            expect(counts).toMatchObject({ success: 2, throttled: 1 });
+            expect(results.map((r) => r.outcome)).toEqual(['success', 'throttled', 'success']);
+            expect(throttledUntil).toBeGreaterThan(Date.now() / 1000);
+        });
+    });
+});
@@ -0,0 +1,284 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { generateKeyPairSync, createVerify } from 'crypto';
+import { FcmClient, FcmError, ServiceAccount, envCredentials, staticCredentials } from '../../fcm';
+
+jest.setTimeout(30000);
+
+interface StubRequest {
+    method?: string;
+    url?: string;
+    headers: http.IncomingHttpHeaders;
+    body: string;
+}
+
+type StubHandler = (req: StubRequest) => {
+    status: number;
+    body: unknown;
+    headers?: Record<string, string>;
+    delayMs?: number;
+};
+
+describe('FcmClient', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let requests: StubRequest[];
+    let handler: StubHandler;
+
+    const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+        modulusLength: 2048,
+        privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+        publicKeyEncoding: { type: 'spki', format: 'pem' },
+    });
+
+    const account: ServiceAccount = {
+        project_id: 'test-project',
+        client_email: 'worker@test-project.iam.gserviceaccount.com',
+        private_key: privateKey,
+    };
+
+    const defaultHandler: StubHandler = (req) => {
+        if (req.url === '/token') {
+            return { status: 200, body: { access_token: 'access-1', expires_in: 3600 } };
+        }
+        return { status: 200, body: { name: 'projects/test-project/messages/1' } };
+    };
+
+    const createClient = (timeoutMs?: number) =>
+        new FcmClient({
+            credentials: { load: async () => account },
+            baseUrl,
+            tokenUrl: `${baseUrl}/token`,
+            timeoutMs,
+        });
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            let body = '';
+            req.on('data', (chunk) => (body += chunk));
+            req.on('end', () => {
+                const stubReq = { method: req.method, url: req.url, headers: req.headers, body };
+                requests.push(stubReq);
+
+                const out = handler(stubReq);
+                setTimeout(() => {
+                    res.writeHead(out.status, { 'Content-Type': 'application/json', ...out.headers });
+                    res.end(JSON.stringify(out.body));
+                }, out.delayMs ?? 0);
+            });
+        });
+
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+    });
+
+    beforeEach(() => {
+        requests = [];
+        handler = defaultHandler;
+    });
+
+    it('exchanges a signed JWT assertion for an access token', async () => {
+        const fcm = createClient();
+
+        const token = await fcm.getAccessToken();
+
+        expect(token).toBe('access-1');
+        expect(requests).toHaveLength(1);
+
+        const form = new URLSearchParams(requests[0].body);
+        expect(form.get('grant_type')).toBe('urn:ietf:params:oauth:grant-type:jwt-bearer');
+
+        const [header, claims, signature] = (form.get('assertion') as string).split('.');
+        const verifier = createVerify('RSA-SHA256');
+        verifier.update(`${header}.${claims}`);
+        expect(verifier.verify(publicKey, Buffer.from(signature, 'base64url'))).toBe(true);
+
+        const decoded = JSON.parse(Buffer.from(claims, 'base64url').toString());
+        expect(decoded.iss).toBe(account.client_email);
+        expect(decoded.aud).toBe(`${baseUrl}/token`);
+        expect(decoded.scope).toBe('https://www.googleapis.com/auth/firebase.messaging');
+    });
+
+    it('caches the access token across sends', async () => {
+        const fcm = createClient();
+
+        await fcm.sendToTopic('news', { title: 't', body: 'b' });
+        await fcm.sendToToken('device-1', { title: 't', body: 'b' });
+
+        const tokenCalls = requests.filter((r) => r.url === '/token');
+        expect(tokenCalls).toHaveLength(1);
+    });
+
+    it('shares one token exchange between concurrent sends', async () => {
+        const fcm = createClient();
+
+        await Promise.all([
+            fcm.sendToTopic('news', { title: 't' }),
+            fcm.sendToToken('device-1', { title: 't' }),
+            fcm.sendToToken('device-2', { title: 't' }),
+        ]);
+
+        expect(requests.filter((r) => r.url === '/token')).toHaveLength(1);
+    });
+
+    it('refreshes the access token once it is about to expire', async () => {
+        const fcm = createClient();
+        const realNow = Date.now;
+        const baseTime = realNow();
+
+        Date.now = () => baseTime;
+        await fcm.getAccessToken();
+
+        Date.now = () => baseTime + 3600 * 1000;
+        await fcm.getAccessToken();
+
+        Date.now = realNow;
+
+        expect(requests.filter((r) => r.url === '/token')).toHaveLength(2);
+    });
+
+    it('posts topic and token messages to projects/{id}/messages:send', async () => {
+        const fcm = createClient();
+
+        const name = await fcm.sendToTopic('news', { title: 'Hello', body: 'World' });
+        await fcm.sendToToken('device-1', { title: 'Hi', body: 'There' });
+
+        expect(name).toBe('projects/test-project/messages/1');
+
+        const sends = requests.filter((r) => r.url === '/v1/projects/test-project/messages:send');
+        expect(sends).toHaveLength(2);
+        expect(sends[0].headers.authorization).toBe('Bearer access-1');
+        expect(JSON.parse(sends[0].body)).toEqual({
+            message: { topic: 'news', notification: { title: 'Hello', body: 'World' } },
+        });
+        expect(JSON.parse(sends[1].body)).toEqual({
+            message: { token: 'device-1', notification: { title: 'Hi', body: 'There' } },
+        });
+    });
+
+    it('sends to the configured project instead of the service account project', async () => {
+        const fcm = new FcmClient({
+            credentials: { load: async () => account },
+            baseUrl,
+            tokenUrl: `${baseUrl}/token`,
+            projectId: 'other-project',
+        });
+
+        await fcm.sendToTopic('news', { title: 't', body: 'b' });
+
+        expect(await fcm.getProjectId()).toBe('other-project');
+        expect(requests.filter((r) => r.url === '/v1/projects/other-project/messages:send')).toHaveLength(1);
+    });
+
+    it('surfaces the FCM errorCode and Retry-After as FcmError', async () => {
+        handler = (req) => {
+            if (req.url === '/token') {
+                return defaultHandler(req);
+            }
+            return {
+                status: 429,
+                headers: { 'Retry-After': '30' },
+                body: {
+                    error: {
+                        code: 429,
+                        message: 'Quota exceeded',
+                        status: 'RESOURCE_EXHAUSTED',
+                        details: [
+                            {
+                                '@type': 'type.googleapis.com/google.firebase.fcm.v1.FcmError',
+                                errorCode: 'QUOTA_EXCEEDED',
+                            },
+                        ],
+                    },
+                },
+            };
+        };
+
+        const promise = createClient().sendToToken('device-1', { title: 't' });
+
+        await expect(promise).rejects.toBeInstanceOf(FcmError);
+        await expect(promise).rejects.toMatchObject({
+            status: 429,
+            code: 'QUOTA_EXCEEDED',
+            retryAfter: 30,
+            message: 'Quota exceeded',
+        });
+    });
+
+    it('drops the cached token after a 401 response', async () => {
+        let sendCalls = 0;
+        handler = (req) => {
+            if (req.url === '/token') {
+                return defaultHandler(req);
+            }
+            sendCalls++;
+            if (sendCalls === 1) {
+                return { status: 401, body: { error: { code: 401, status: 'UNAUTHENTICATED', message: 'expired' } } };
+            }
+            return defaultHandler(req);
+        };
+
+        const fcm = createClient();
+
+        await expect(fcm.sendToTopic('news', { title: 't' })).rejects.toMatchObject({ code: 'UNAUTHENTICATED' });
+        await fcm.sendToTopic('news', { title: 't' });
+
+        expect(requests.filter((r) => r.url === '/token')).toHaveLength(2);
+    });
+
+    it('times out a stalled send as a retryable FcmError', async () => {
+        handler = (req) => ({ ...defaultHandler(req), delayMs: req.url === '/token' ? 0 : 500 });
+
+        const err = await createClient(50)
+            .sendToTopic('news', { title: 't' })
+            .catch((e: unknown) => e);
+
+        expect(err).toBeInstanceOf(FcmError);
+        expect(err).toMatchObject({ status: 504, code: 'UNAVAILABLE' });
+    });
+
+    it('times out a stalled token exchange and lets the next send retry it', async () => {
+        handler = (req) => ({ ...defaultHandler(req), delayMs: 500 });
+        const fcm = createClient(50);
+
+        await expect(fcm.getAccessToken()).rejects.toMatchObject({ status: 504, code: 'UNAVAILABLE' });
+
+        handler = defaultHandler;
+        await expect(fcm.getAccessToken()).resolves.toBe('access-1');
+        expect(requests.filter((r) => r.url === '/token')).toHaveLength(2);
+    });
+
+    it('reports OAuth2 failures from the token endpoint', async () => {
+        handler = () => ({ status: 400, body: { error: 'invalid_grant', error_description: 'Invalid JWT' } });
+
+        await expect(createClient().getAccessToken()).rejects.toMatchObject({
+            status: 400,
+            code: 'invalid_grant',
+            message: 'Invalid JWT',
+        });
+    });
+});
+
+describe('envCredentials', () => {
+    it('parses the service account from the given variable', async () => {
+        const source = envCredentials('SA_JSON', { SA_JSON: JSON.stringify({ project_id: 'p' }) });
+
+        await expect(source.load()).resolves.toEqual({ project_id: 'p' });
+    });
+
+    it('throws when the variable is missing', async () => {
+        await expect(envCredentials('SA_JSON', {}).load()).rejects.toThrow('SA_JSON is not set');
+    });
+});
+
+describe('staticCredentials', () => {
+    it('resolves the given service account', async () => {
+        const account = { project_id: 'p', client_email: 'e', private_key: 'k' };
+
+        await expect(staticCredentials(account).load()).resolves.toBe(account);
+    });
+});
@@ -0,0 +1,80 @@
+import Redis from 'ioredis';
+import { SQSRecord } from 'aws-lambda';
+import { idempotencyKey, idempotencyRedisKey, redisIdempotencyStore } from '../../idempotency';
+import { NotificationMessage } from '../../message';
+
+jest.setTimeout(30000);
+
+const message: NotificationMessage = { version: 1, type: 'topic', title: 't', topic: 'all' };
+
+const record = (messageId: string, requeues?: number) =>
+    ({
+        messageId,
+        messageAttributes:
+            requeues === undefined ? {} : { RequeueCount: { stringValue: String(requeues), dataType: 'Number' } },
+    } as unknown as SQSRecord);
+
+describe('idempotencyKey', () => {
+    it('prefers the message key over the SQS message id', () => {
+        expect(idempotencyKey(record('m1'), message)).toBe('m1');
+        expect(idempotencyKey(record('m1'), { ...message, idempotencyKey: 'order-42' })).toBe('order-42');
+    });
+
+    it('gives requeued copies their own key', () => {
+        expect(idempotencyKey(record('m2', 2), { ...message, idempotencyKey: 'order-42' })).toBe('order-42:requeue:2');
+    });
+});
+
+describe('redisIdempotencyStore', () => {
+    let redis: Redis;
+
+    beforeAll(async () => {
+        redis = new Redis({
+            host: '127.0.0.1',
+            port: 6379,
+            connectTimeout: 2000,
+        });
+        await redis.ping();
+    });
+
+    afterAll(async () => {
+        await redis.quit();
+    });
+
+    beforeEach(async () => {
+        await redis.flushall();
+    });
+
+    it('lets one owner claim a key until it completes', async () => {
+        const store = redisIdempotencyStore(redis, 3600);
+
+        expect(await store.begin('k', 'a', 30)).toBe('acquired');
+        expect(await store.begin('k', 'b', 30)).toBe('in-progress');
+        expect(await redis.ttl(idempotencyRedisKey('k'))).toBeLessThanOrEqual(30);
+
+        expect(await store.complete('k', 'a')).toBe(true);
+        expect(await store.begin('k', 'b', 30)).toBe('completed');
+        expect(await redis.ttl(idempotencyRedisKey('k'))).toBeGreaterThan(30);
+    });
+
+    it('frees a released key for the next delivery', async () => {
+        const store = redisIdempotencyStore(redis);
+
+        await store.begin('k', 'a', 30);
+        expect(await store.release('k', 'a')).toBe(true);
+        expect(await store.begin('k', 'b', 30)).toBe('acquired');
+    });
+
+    it('lets a delivery be retried once the crashed owner lease expired', async () => {
+        const store = redisIdempotencyStore(redis);
+
+        await store.begin('k', 'crashed', 1);
+        await new Promise((resolve) => setTimeout(resolve, 1100));
+
+        expect(await store.begin('k', 'retry', 30)).toBe('acquired');
+        // The crashed owner can't complete or release the retry's claim
+        expect(await store.complete('k', 'crashed')).toBe(false);
+        expect(await store.release('k', 'crashed')).toBe(false);
+        expect(await store.begin('k', 'other', 30)).toBe('in-progress');
+    });
+});
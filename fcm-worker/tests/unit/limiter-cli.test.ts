@@ -0,0 +1,49 @@
+import { limiterCli } from '../../limiter-cli';
+import { LimiterAdmin } from '../../throttle';
+
+const fakeAdmin = (): LimiterAdmin => ({
+    inspect: jest.fn(async (name: string) =>
+        name === 'fcm_throttle_key' ? { name, type: 'hash', count: 3, max: 1200, remaining: 1197, ttl: 90 } : null,
+    ),
+    reset: jest.fn(async (name: string) => name === 'fcm_throttle_key'),
+    list: jest.fn(async () => ['fcm_throttle_key', 'fcm_throttle_key:topic:news']),
+});
+
+describe('limiterCli', () => {
+    it('lists limiter keys one per line', async () => {
+        const admin = fakeAdmin();
+        const lines: string[] = [];
+
+        expect(await limiterCli(admin, ['list', 'fcm_throttle_key'], (line) => lines.push(line))).toBe(0);
+        expect(admin.list).toHaveBeenCalledWith('fcm_throttle_key');
+        expect(lines).toEqual(['fcm_throttle_key', 'fcm_throttle_key:topic:news']);
+    });
+
+    it('prints the inspected state as JSON', async () => {
+        const lines: string[] = [];
+
+        await limiterCli(fakeAdmin(), ['inspect', 'fcm_throttle_key'], (line) => lines.push(line));
+        await limiterCli(fakeAdmin(), ['inspect', 'missing'], (line) => lines.push(line));
+
+        expect(JSON.parse(lines[0])).toMatchObject({ count: 3, remaining: 1197 });
+        expect(JSON.parse(lines[1])).toEqual({ name: 'missing', exists: false });
+    });
+
+    it('resets a limiter', async () => {
+        const admin = fakeAdmin();
+        const lines: string[] = [];
+
+        await limiterCli(admin, ['reset', 'fcm_throttle_key'], (line) => lines.push(line));
+        await limiterCli(admin, ['reset', 'missing'], (line) => lines.push(line));
+
+        expect(lines).toEqual(['Reset fcm_throttle_key', 'missing does not exist']);
+    });
+
+    it('prints usage for unknown commands or missing names', async () => {
+        const lines: string[] = [];
+
+        expect(await limiterCli(fakeAdmin(), ['inspect'], (line) => lines.push(line))).toBe(1);
+        expect(await limiterCli(fakeAdmin(), [], (line) => lines.push(line))).toBe(1);
+        expect(lines[0]).toContain('Usage: npm run limiter');
+    });
+});
@@ -0,0 +1,105 @@
+import { FcmError } from '../../fcm';
+import { addLogContext, createLogger, hashToken, redact, withLogContext } from '../../logger';
+
+const capture = (level?: 'debug' | 'info' | 'warn' | 'error') => {
+    const lines: Array<Record<string, unknown>> = [];
+    const logger = createLogger({
+        level,
+        write: (line) => lines.push(JSON.parse(line)),
+        now: () => Date.parse('2024-05-01T00:00:00Z'),
+    });
+    return { logger, lines };
+};
+
+describe('redact', () => {
+    it('hashes device tokens and hides notification content', () => {
+        expect(
+            redact({
+                token: 'device-1',
+                tokens: ['device-1', 'device-2'],
+                message: { type: 'tokens', title: 'Hi', body: 'Secret', data: { orderId: '42' }, topic: 'news' },
+            }),
+        ).toEqual({
+            token: hashToken('device-1'),
+            tokens: [hashToken('device-1'), hashToken('device-2')],
+            message: { type: 'tokens', title: '[redacted]', body: '[redacted]', data: '[redacted]', topic: 'news' },
+        });
+        expect(hashToken('device-1')).toMatch(/^sha256:[0-9a-f]{16}$/);
+        expect(hashToken('device-1')).not.toBe(hashToken('device-2'));
+    });
+
+    it('flattens errors with their own fields', () => {
+        expect(redact(new FcmError('Quota exceeded', 429, 'RESOURCE_EXHAUSTED', 30))).toMatchObject({
+            name: 'FcmError',
+            message: 'Quota exceeded',
+            status: 429,
+            code: 'RESOURCE_EXHAUSTED',
+            retryAfter: 30,
+            stack: expect.stringContaining('Quota exceeded'),
+        });
+    });
+
+    it('truncates deeply nested values', () => {
+        expect(redact({ a: { b: { c: { d: { e: { f: { g: 1 } } } } } } })).toEqual({
+            a: { b: { c: { d: { e: { f: '[truncated]' } } } } },
+        });
+    });
+});
+
+describe('createLogger', () => {
+    it('writes one JSON object per line with the call fields', () => {
+        const { logger, lines } = capture();
+
+        logger.info('Pushed tokens', { counts: { success: 2 } });
+
+        expect(lines).toEqual([
+            {
+                timestamp: '2024-05-01T00:00:00.000Z',
+                level: 'info',
+                message: 'Pushed tokens',
+                counts: { success: 2 },
+            },
+        ]);
+    });
+
+    it('skips lines below its level', () => {
+        const { logger, lines } = capture('warn');
+
+        logger.debug('d');
+        logger.info('i');
+        logger.warn('w');
+        logger.error('e');
+
+        expect(lines.map((line) => line.level)).toEqual(['warn', 'error']);
+    });
+
+    it('adds child fields and the async context to every line', async () => {
+        const { logger, lines } = capture();
+        const child = logger.child({ component: 'scheduler' });
+
+        await withLogContext({ awsRequestId: 'req-1' }, async () => {
+            await withLogContext({ messageId: 'm1' }, async () => {
+                addLogContext({ correlationId: 'order-42' });
+                await Promise.resolve();
+                child.info('inside');
+            });
+            child.info('after');
+        });
+        child.info('outside');
+
+        expect(lines).toEqual([
+            expect.objectContaining({ awsRequestId: 'req-1', messageId: 'm1', correlationId: 'order-42' }),
+            expect.objectContaining({ awsRequestId: 'req-1', component: 'scheduler' }),
+            expect.not.objectContaining({ awsRequestId: 'req-1' }),
+        ]);
+        expect(lines[1]).not.toHaveProperty('messageId');
+    });
+
+    it('keeps logging when a field cannot be serialized', () => {
+        const { logger, lines } = capture();
+
+        logger.info('big', { count: BigInt(1) });
+
+        expect(lines).toEqual([{ timestamp: '2024-05-01T00:00:00.000Z', level: 'info', message: 'big' }]);
+    });
+});
@@ -0,0 +1,231 @@
+import { MessageValidationError, parseMessage, toFcmMessage, validateMessage } from '../../message';
+
+const validationErrors = (fn: () => unknown) => {
+    try {
+        fn();
+    } catch (err) {
+        expect(err).toBeInstanceOf(MessageValidationError);
+        return (err as MessageValidationError).errors;
+    }
+    throw new Error('expected MessageValidationError');
+};
+
+describe('validateMessage', () => {
+    it('accepts a topic message and defaults the version', () => {
+        const message = validateMessage({ type: 'topic', title: 'Hello', body: 'World', topic: 'all' });
+
+        expect(message).toEqual({ version: 1, type: 'topic', title: 'Hello', body: 'World', topic: 'all' });
+    });
+
+    it('accepts a tokens message with overrides', () => {
+        const message = validateMessage({
+            type: 'tokens',
+            title: 'Hi',
+            tokens: ['a', 'b'],
+            data: { orderId: '42' },
+            android: { notification: { sound: 'default' } },
+            ttl: 3600,
+            priority: 'high',
+            collapseKey: 'orders',
+        });
+
+        expect(message.type).toBe('tokens');
+    });
+
+    it('accepts a data-only condition message', () => {
+        const message = validateMessage({
+            type: 'condition',
+            condition: "'a' in topics && 'b' in topics",
+            data: { k: 'v' },
+        });
+
+        expect(message.type).toBe('condition');
+    });
+
+    it('rejects unknown types instead of silently dropping them', () => {
+        expect(validationErrors(() => validateMessage({ type: 'sms', title: 't' }))).toEqual([
+            { path: 'type', message: "must be one of 'topic', 'tokens', 'condition'" },
+        ]);
+    });
+
+    it('accepts an idempotency key of at most 256 characters', () => {
+        const message = { type: 'topic', title: 't', topic: 'all' };
+
+        expect(validateMessage({ ...message, idempotencyKey: 'order-42' }).idempotencyKey).toBe('order-42');
+        expect(validationErrors(() => validateMessage({ ...message, idempotencyKey: '' }))).toEqual([
+            { path: 'idempotencyKey', message: 'must be a non-empty string of at most 256 characters' },
+        ]);
+        expect(validationErrors(() => validateMessage({ ...message, idempotencyKey: 'k'.repeat(257) }))).toHaveLength(
+            1,
+        );
+    });
+
+    it('accepts a correlation id of at most 256 characters', () => {
+        const message = { type: 'topic', title: 't', topic: 'all' };
+
+        expect(validateMessage({ ...message, correlationId: 'req-7' }).correlationId).toBe('req-7');
+        expect(validationErrors(() => validateMessage({ ...message, correlationId: 42 }))).toEqual([
+            { path: 'correlationId', message: 'must be a non-empty string of at most 256 characters' },
+        ]);
+    });
+
+    it('accepts sendAt timestamps with a time zone only', () => {
+        const message = { type: 'topic', title: 't', topic: 'all' };
+
+        expect(validateMessage({ ...message, sendAt: '2024-05-01T09:00:00+07:00' }).sendAt).toBe(
+            '2024-05-01T09:00:00+07:00',
+        );
+        for (const sendAt of ['2024-05-01T09:00:00', 'May 1, 2024', '2024-13-01T09:00Z', 1714554000]) {
+            expect(validationErrors(() => validateMessage({ ...message, sendAt }))).toEqual([
+                {
+                    path: 'sendAt',
+                    message: 'must be an ISO 8601 timestamp with a time zone, e.g. 2024-05-01T09:00:00Z',
+                },
+            ]);
+        }
+    });
+
+    it('validates delivery windows and device time zones', () => {
+        const message = { type: 'tokens', title: 't', tokens: ['a'] };
+
+        expect(
+            validateMessage({
+                ...message,
+                deliveryWindow: { start: '21:00', end: '08:00', timeZone: 'Asia/Bangkok' },
+                tokenTimeZones: { a: 'Europe/London' },
+            }).deliveryWindow,
+        ).toEqual({ start: '21:00', end: '08:00', timeZone: 'Asia/Bangkok' });
+        expect(
+            validationErrors(() =>
+                validateMessage({
+                    ...message,
+                    deliveryWindow: { start: '8am', end: '8am', timeZone: 'Mars/Olympus' },
+                    tokenTimeZones: { a: 'Nowhere' },
+                }),
+            ),
+        ).toEqual([
+            { path: 'deliveryWindow.start', message: 'must be a time of day as HH:MM' },
+            { path: 'deliveryWindow.end', message: 'must be a time of day as HH:MM' },
+            { path: 'deliveryWindow', message: 'start and end must differ' },
+            { path: 'deliveryWindow.timeZone', message: 'must be an IANA time zone, e.g. Asia/Bangkok' },
+            { path: 'tokenTimeZones.a', message: 'must be an IANA time zone, e.g. Asia/Bangkok' },
+        ]);
+    });
+
+    it('reports every invalid field with its path', () => {
+        const errors = validationErrors(() =>
+            validateMessage({
+                type: 'tokens',
+                version: 2,
+                title: 42,
+                tokens: ['ok', '', 7],
+                data: { a: 'x', b: 1 },
+                apns: 'nope',
+                ttl: -1,
+                priority: 'urgent',
+            }),
+        );
+
+        expect(errors.map((e) => e.path)).toEqual([
+            'version',
+            'title',
+            'data.b',
+            'apns',
+            'ttl',
+            'priority',
+            'tokens[1]',
+            'tokens[2]',
+        ]);
+    });
+
+    it('requires a title, body or data', () => {
+        expect(validationErrors(() => validateMessage({ type: 'topic', topic: 'all' }))).toEqual([
+            { path: '$', message: 'must have a title, body or data' },
+        ]);
+    });
+
+    it('rejects invalid topic names and empty token lists', () => {
+        expect(validationErrors(() => validateMessage({ type: 'topic', title: 't', topic: 'a b' }))[0].path).toBe(
+            'topic',
+        );
+        expect(validationErrors(() => validateMessage({ type: 'tokens', title: 't', tokens: [] }))[0].path).toBe(
+            'tokens',
+        );
+    });
+
+    it('rejects non-object payloads', () => {
+        expect(validationErrors(() => validateMessage(['topic']))).toEqual([
+            { path: '$', message: 'must be an object' },
+        ]);
+    });
+});
+
+describe('parseMessage', () => {
+    it('classifies malformed JSON as a validation error', () => {
+        const errors = validationErrors(() => parseMessage('{not json'));
+
+        expect(errors).toHaveLength(1);
+        expect(errors[0].path).toBe('$');
+        expect(errors[0].message).toMatch(/^invalid JSON/);
+    });
+});
+
+describe('toFcmMessage', () => {
+    it('targets the topic, condition or given token', () => {
+        expect(toFcmMessage(validateMessage({ type: 'topic', title: 't', topic: 'all' }))).toEqual({
+            topic: 'all',
+            notification: { title: 't' },
+        });
+        expect(toFcmMessage(validateMessage({ type: 'condition', body: 'b', condition: "'a' in topics" }))).toEqual({
+            condition: "'a' in topics",
+            notification: { body: 'b' },
+        });
+        expect(toFcmMessage(validateMessage({ type: 'tokens', title: 't', tokens: ['x', 'y'] }), 'y')).toEqual({
+            token: 'y',
+            notification: { title: 't' },
+        });
+    });
+
+    it('maps ttl, priority and collapseKey to platform configs', () => {
+        const realNow = Date.now;
+        Date.now = () => 1_000_000_000_000;
+
+        const fcmMessage = toFcmMessage(
+            validateMessage({
+                type: 'topic',
+                topic: 'all',
+                data: { k: 'v' },
+                ttl: 60,
+                priority: 'high',
+                collapseKey: 'news',
+            }),
+        );
+
+        Date.now = realNow;
+
+        expect(fcmMessage).toEqual({
+            topic: 'all',
+            data: { k: 'v' },
+            android: { ttl: '60s', priority: 'HIGH', collapse_key: 'news' },
+            apns: { headers: { 'apns-expiration': '1000000060', 'apns-priority': '10', 'apns-collapse-id': 'news' } },
+            webpush: { headers: { TTL: '60', Urgency: 'high', Topic: 'news' } },
+        });
+    });
+
+    it('lets explicit platform overrides win over derived values', () => {
+        const fcmMessage = toFcmMessage(
+            validateMessage({
+                type: 'topic',
+                title: 't',
+                topic: 'all',
+                priority: 'high',
+                android: { priority: 'NORMAL', notification: { sound: 'default' } },
+                apns: { headers: { 'apns-priority': '5' }, payload: { aps: { badge: 1 } } },
+            }),
+        );
+
+        expect(fcmMessage.android).toEqual({ priority: 'NORMAL', notification: { sound: 'default' } });
+        expect(fcmMessage.apns).toEqual({ headers: { 'apns-priority': '5' }, payload: { aps: { badge: 1 } } });
+        expect(fcmMessage.webpush).toEqual({ headers: { Urgency: 'high' } });
+    });
+});
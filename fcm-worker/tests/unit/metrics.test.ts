@@ -0,0 +1,94 @@
+import { createMetrics, memoryMetricsSink } from '../../metrics';
+
+const NOW = Date.parse('2024-05-01T00:00:00Z');
+
+describe('createMetrics', () => {
+    const setup = () => {
+        const sink = memoryMetricsSink();
+        const metrics = createMetrics(sink, { namespace: 'FCMWorker', dimensions: { Stage: 'prod' }, now: () => NOW });
+        return { sink, metrics };
+    };
+
+    it('writes nothing until flushed, then one EMF document per dimension set', () => {
+        const { sink, metrics } = setup();
+        const tokens = metrics.withDimensions({ type: 'tokens' });
+
+        metrics.put('BatchSize', 10);
+        tokens.put('Sent', 3);
+        tokens.put('Sent', 2);
+        tokens.put('SendLatency', 120, 'Milliseconds');
+        tokens.withDimensions({ errorCode: 'unregistered' }).put('Failed', 1);
+        expect(sink.documents).toEqual([]);
+
+        metrics.flush();
+
+        expect(sink.documents).toEqual([
+            {
+                _aws: {
+                    Timestamp: NOW,
+                    CloudWatchMetrics: [
+                        {
+                            Namespace: 'FCMWorker',
+                            Dimensions: [['Stage']],
+                            Metrics: [{ Name: 'BatchSize', Unit: 'Count' }],
+                        },
+                    ],
+                },
+                Stage: 'prod',
+                BatchSize: [10],
+            },
+            {
+                _aws: {
+                    Timestamp: NOW,
+                    CloudWatchMetrics: [
+                        {
+                            Namespace: 'FCMWorker',
+                            Dimensions: [['Stage', 'type']],
+                            Metrics: [
+                                { Name: 'Sent', Unit: 'Count' },
+                                { Name: 'SendLatency', Unit: 'Milliseconds' },
+                            ],
+                        },
+                    ],
+                },
+                Stage: 'prod',
+                type: 'tokens',
+                Sent: [3, 2],
+                SendLatency: [120],
+            },
+            expect.objectContaining({ type: 'tokens', errorCode: 'unregistered', Failed: [1] }),
+        ]);
+    });
+
+    it('empties its buffer on flush, children included', () => {
+        const { sink, metrics } = setup();
+        const topic = metrics.withDimensions({ type: 'topic' });
+
+        topic.put('Sent', 1);
+        topic.flush();
+        metrics.flush();
+
+        expect(sink.documents).toHaveLength(1);
+        expect(sink.values('Sent', { type: 'topic' })).toEqual([1]);
+        expect(sink.values('Sent', { type: 'tokens' })).toEqual([]);
+    });
+
+    it('splits values and metrics over documents within the EMF limits', () => {
+        const { sink, metrics } = setup();
+
+        for (let i = 0; i < 250; i++) {
+            metrics.put('SendLatency', i, 'Milliseconds');
+        }
+        for (let i = 0; i < 120; i++) {
+            metrics.put(`Metric${i}`, i);
+        }
+        metrics.flush();
+
+        expect(sink.values('SendLatency')).toHaveLength(250);
+        for (const document of sink.documents) {
+            expect(document._aws.CloudWatchMetrics[0].Metrics.length).toBeLessThanOrEqual(100);
+            expect((document.SendLatency as number[] | undefined)?.length ?? 0).toBeLessThanOrEqual(100);
+        }
+        expect(sink.documents).toHaveLength(4);
+    });
+});
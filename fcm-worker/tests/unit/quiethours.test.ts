@@ -0,0 +1,114 @@
+import { isWithinWindow, nextWindowStart, parseTimeOfDay, splitByDeliveryWindow } from '../../quiethours';
+import { NotificationMessage } from '../../message';
+
+const at = (iso: string) => Date.parse(iso);
+const daytime = { start: '08:00', end: '21:00' };
+
+describe('parseTimeOfDay', () => {
+    it('reads HH:MM as minutes since midnight', () => {
+        expect(parseTimeOfDay('00:00')).toBe(0);
+        expect(parseTimeOfDay('21:30')).toBe(1290);
+        expect(parseTimeOfDay('24:00')).toBeUndefined();
+        expect(parseTimeOfDay('8:00')).toBeUndefined();
+    });
+});
+
+describe('isWithinWindow', () => {
+    it('reads the window in the given time zone', () => {
+        // 03:00 and 10:00 in Bangkok (UTC+7)
+        expect(isWithinWindow(daytime, 'Asia/Bangkok', at('2024-05-01T20:00:00Z'))).toBe(false);
+        expect(isWithinWindow(daytime, 'Asia/Bangkok', at('2024-05-02T03:00:00Z'))).toBe(true);
+        expect(isWithinWindow(daytime, 'UTC', at('2024-05-02T21:00:00Z'))).toBe(false);
+    });
+
+    it('supports windows spanning midnight', () => {
+        const night = { start: '22:00', end: '06:00' };
+        expect(isWithinWindow(night, 'UTC', at('2024-05-01T23:30:00Z'))).toBe(true);
+        expect(isWithinWindow(night, 'UTC', at('2024-05-02T05:59:00Z'))).toBe(true);
+        expect(isWithinWindow(night, 'UTC', at('2024-05-02T12:00:00Z'))).toBe(false);
+    });
+});
+
+describe('nextWindowStart', () => {
+    it('returns now inside the window and the next start outside it', () => {
+        const now = at('2024-05-02T03:00:12Z');
+        expect(nextWindowStart(daytime, 'Asia/Bangkok', now)).toBe(now);
+        expect(nextWindowStart(daytime, 'Asia/Bangkok', at('2024-05-01T20:00:12Z'))).toBe(at('2024-05-02T01:00:00Z'));
+        expect(nextWindowStart(daytime, 'Asia/Bangkok', at('2024-05-02T15:00:00Z'))).toBe(at('2024-05-03T01:00:00Z'));
+    });
+
+    it('follows daylight saving changes', () => {
+        // 00:00 local on the nights New York moves to EDT and back to EST
+        expect(nextWindowStart(daytime, 'America/New_York', at('2024-03-10T05:00:00Z'))).toBe(
+            at('2024-03-10T12:00:00Z'),
+        );
+        expect(nextWindowStart(daytime, 'America/New_York', at('2024-11-03T04:00:00Z'))).toBe(
+            at('2024-11-03T13:00:00Z'),
+        );
+    });
+
+    it('opens a window whose start time is skipped once its local time exists again', () => {
+        // 02:30 does not exist in New York on 2024-03-10; 07:30Z is 03:30 EDT
+        expect(nextWindowStart({ start: '02:30', end: '05:00' }, 'America/New_York', at('2024-03-10T05:00:00Z'))).toBe(
+            at('2024-03-10T07:30:00Z'),
+        );
+    });
+});
+
+describe('splitByDeliveryWindow', () => {
+    const now = at('2024-05-01T20:00:00Z');
+    const topic: NotificationMessage = { version: 1, type: 'topic', title: 't', topic: 'news' };
+
+    it('leaves messages without a window alone', () => {
+        expect(splitByDeliveryWindow(topic, now)).toEqual({ sendable: topic, deferred: [] });
+    });
+
+    it('defers a whole message until its window opens', () => {
+        const message = { ...topic, deliveryWindow: { ...daytime, timeZone: 'Asia/Bangkok' } };
+
+        expect(splitByDeliveryWindow(message, now)).toEqual({
+            deferred: [
+                {
+                    sendAt: at('2024-05-02T01:00:00Z') / 1000,
+                    message: { ...message, sendAt: '2024-05-02T01:00:00.000Z' },
+                },
+            ],
+        });
+        expect(splitByDeliveryWindow(message, at('2024-05-02T03:00:00Z')).sendable).toBe(message);
+    });
+
+    it('splits tokens by device time zone', () => {
+        const message: NotificationMessage = {
+            version: 1,
+            type: 'tokens',
+            title: 't',
+            tokens: ['bangkok', 'london', 'default'],
+            tokenTimeZones: { bangkok: 'Asia/Bangkok', london: 'Europe/London' },
+            deliveryWindow: { ...daytime, timeZone: 'Asia/Tokyo' },
+        };
+
+        const { sendable, deferred } = splitByDeliveryWindow(message, now);
+
+        // 21:00 in London is past the window too; 20:00Z is 03:00 in Bangkok and 05:00 in Tokyo
+        expect(sendable).toBeUndefined();
+        expect(deferred.map((part) => [new Date(part.sendAt * 1000).toISOString(), part.message])).toEqual([
+            [
+                '2024-05-01T23:00:00.000Z',
+                expect.objectContaining({
+                    tokens: ['default'],
+                    tokenTimeZones: {},
+                    sendAt: '2024-05-01T23:00:00.000Z',
+                }),
+            ],
+            [
+                '2024-05-02T01:00:00.000Z',
+                expect.objectContaining({ tokens: ['bangkok'], tokenTimeZones: { bangkok: 'Asia/Bangkok' } }),
+            ],
+            ['2024-05-02T07:00:00.000Z', expect.objectContaining({ tokens: ['london'] })],
+        ]);
+
+        const morning = splitByDeliveryWindow(message, at('2024-05-02T02:00:00Z'));
+        expect(morning.sendable).toMatchObject({ tokens: ['bangkok', 'default'] });
+        expect(morning.deferred.map((part) => part.message)).toEqual([expect.objectContaining({ tokens: ['london'] })]);
+    });
+});
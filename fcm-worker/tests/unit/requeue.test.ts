@@ -0,0 +1,176 @@
+import { SQSRecord } from 'aws-lambda';
+import {
+    MAX_DELAY_SECONDS,
+    attemptCount,
+    backoffDelay,
+    deadLetter,
+    queueUrlFromArn,
+    receiveCount,
+    requeue,
+    requeueCount,
+} from '../../requeue';
+import { SendMessageInput, SqsClient } from '../../sqs';
+
+const ARN = 'arn:aws:sqs:ap-southeast-1:123456789012:fcm-main-queue-sqs-staging';
+const QUEUE_URL = 'https://sqs.ap-southeast-1.amazonaws.com/123456789012/fcm-main-queue-sqs-staging';
+
+const record = (requeues?: number): SQSRecord =>
+    ({
+        messageId: 'm1',
+        body: '{"type":"topic"}',
+        eventSourceARN: ARN,
+        messageAttributes:
+            requeues === undefined
+                ? {}
+                : { RequeueCount: { stringValue: String(requeues), dataType: 'String', stringListValues: [] } },
+    } as unknown as SQSRecord);
+
+const fakeSqs = () => {
+    const sent: SendMessageInput[] = [];
+    const client: SqsClient = {
+        sendMessage: async (input) => {
+            sent.push(input);
+        },
+    };
+    return { client, sent };
+};
+
+describe('queueUrlFromArn', () => {
+    it('builds the queue URL from the event source ARN', () => {
+        expect(queueUrlFromArn(ARN)).toBe(QUEUE_URL);
+        expect(queueUrlFromArn('arn:aws-cn:sqs:cn-north-1:123456789012:q')).toBe(
+            'https://sqs.cn-north-1.amazonaws.com.cn/123456789012/q',
+        );
+    });
+
+    it('rejects non-SQS ARNs', () => {
+        expect(() => queueUrlFromArn('arn:aws:sns:ap-southeast-1:123456789012:topic')).toThrow('Not an SQS queue ARN');
+    });
+});
+
+describe('backoffDelay', () => {
+    const now = 1_000_000_000_000;
+
+    it('waits until the window decays plus jitter', () => {
+        expect(backoffDelay(now / 1000 + 30, 0, { now, random: () => 0 })).toBe(30);
+        expect(backoffDelay(now / 1000 + 30, 0, { now, random: () => 0.5, jitterSeconds: 4 })).toBe(32);
+    });
+
+    it('grows the jitter window with each requeue', () => {
+        expect(backoffDelay(now / 1000 + 30, 3, { now, random: () => 0.5, jitterSeconds: 4 })).toBe(38);
+    });
+
+    it('clamps to between 1 second and the SQS maximum', () => {
+        expect(backoffDelay(now / 1000 - 10, 0, { now, random: () => 0 })).toBe(1);
+        expect(backoffDelay(now / 1000 + 5000, 0, { now, random: () => 0 })).toBe(MAX_DELAY_SECONDS);
+    });
+});
+
+describe('requeue', () => {
+    it('re-sends the record with a delay and increments the requeue count', async () => {
+        const { client, sent } = fakeSqs();
+        const decaysAt = Date.now() / 1000 + 20;
+
+        const result = await requeue(client, record(2), { decaysAt, jitterSeconds: 0 });
+
+        expect(result).toBe(true);
+        expect(sent).toHaveLength(1);
+        expect(sent[0]).toMatchObject({
+            queueUrl: QUEUE_URL,
+            body: '{"type":"topic"}',
+            messageAttributes: { RequeueCount: '3' },
+        });
+        expect(sent[0].delaySeconds).toBeGreaterThanOrEqual(19);
+        expect(sent[0].delaySeconds).toBeLessThanOrEqual(21);
+    });
+
+    it('uses the replacement body when given', async () => {
+        const { client, sent } = fakeSqs();
+
+        await requeue(client, record(), { decaysAt: 0, body: '{"type":"tokens"}' });
+
+        expect(sent[0].body).toBe('{"type":"tokens"}');
+        expect(sent[0].messageAttributes).toEqual({ RequeueCount: '1' });
+    });
+
+    it('carries the failed attempts towards the retry budget of the copy', async () => {
+        const { client, sent } = fakeSqs();
+        const retried = {
+            ...record(1),
+            attributes: { ApproximateReceiveCount: '2' },
+            messageAttributes: {
+                ...record(1).messageAttributes,
+                AttemptCount: { stringValue: '3', dataType: 'Number', stringListValues: [] },
+            },
+        } as unknown as SQSRecord;
+
+        await requeue(client, retried, { decaysAt: 0 });
+        await requeue(client, retried, { decaysAt: 0, attempts: attemptCount(retried) });
+
+        expect(sent.map((input) => input.messageAttributes)).toEqual([
+            { RequeueCount: '2', AttemptCount: '3' },
+            { RequeueCount: '2', AttemptCount: '5' },
+        ]);
+    });
+
+    it('gives up once maxRequeues is reached', async () => {
+        const { client, sent } = fakeSqs();
+
+        expect(await requeue(client, record(5), { decaysAt: 0, maxRequeues: 5 })).toBe(false);
+        expect(sent).toHaveLength(0);
+    });
+});
+
+describe('requeueCount', () => {
+    it('defaults to 0 when the attribute is missing', () => {
+        expect(requeueCount(record())).toBe(0);
+        expect(requeueCount(record(4))).toBe(4);
+    });
+});
+
+describe('receiveCount', () => {
+    it('reads ApproximateReceiveCount, counting a record without it as a first delivery', () => {
+        expect(receiveCount({ ...record(), attributes: { ApproximateReceiveCount: '3' } } as SQSRecord)).toBe(3);
+        expect(receiveCount(record())).toBe(1);
+    });
+});
+
+describe('attemptCount', () => {
+    it('adds the attempts carried from earlier copies to the receive count', () => {
+        const carried = (attempts: string) =>
+            ({
+                ...record(),
+                attributes: { ApproximateReceiveCount: '2' },
+                messageAttributes: {
+                    AttemptCount: { stringValue: attempts, dataType: 'Number', stringListValues: [] },
+                },
+            } as unknown as SQSRecord);
+
+        expect(attemptCount(carried('3'))).toBe(5);
+        expect(attemptCount(carried('nope'))).toBe(2);
+        expect(attemptCount(record())).toBe(1);
+    });
+});
+
+describe('deadLetter', () => {
+    it('sends the record to the DLQ tagged with why it failed', async () => {
+        const { client, sent } = fakeSqs();
+
+        await deadLetter(client, record(2), 'arn:aws:sqs:ap-southeast-1:123456789012:fcm-dlq', {
+            category: 'permanent',
+            reason: 'x'.repeat(2000),
+        });
+
+        expect(sent).toEqual([
+            {
+                queueUrl: 'https://sqs.ap-southeast-1.amazonaws.com/123456789012/fcm-dlq',
+                body: '{"type":"topic"}',
+                messageAttributes: {
+                    FailureCategory: 'permanent',
+                    FailureReason: 'x'.repeat(1024),
+                    SourceMessageId: 'm1',
+                },
+            },
+        ]);
+    });
+});
@@ -0,0 +1,120 @@
+import Redis from 'ioredis';
+import { SQSRecord } from 'aws-lambda';
+import { claimDue, deferRecord, schedule, scheduledRecord, unschedule } from '../../scheduler';
+import { SendMessageInput } from '../../sqs';
+
+jest.setTimeout(30000);
+
+const QUEUE_ARN = 'arn:aws:sqs:ap-southeast-1:123456789012:fcm-main-queue-sqs-staging';
+
+describe('schedule', () => {
+    let redis: Redis;
+
+    beforeAll(async () => {
+        redis = new Redis({
+            host: '127.0.0.1',
+            port: 6379,
+            connectTimeout: 2000,
+        });
+        await redis.ping();
+    });
+
+    afterAll(async () => {
+        await redis.quit();
+    });
+
+    beforeEach(async () => {
+        await redis.flushall();
+    });
+
+    it('keeps one entry per parked record', async () => {
+        await schedule(redis, 'scheduled', { id: 'm1', body: '{}' }, 2000);
+        await schedule(redis, 'scheduled', { id: 'm1', body: '{}' }, 2000);
+        await schedule(redis, 'scheduled', { id: 'm2', body: '{}' }, 2000);
+
+        expect(await redis.zcard('scheduled')).toBe(2);
+    });
+
+    it('claims due items in send time order, up to the limit', async () => {
+        await schedule(redis, 'scheduled', { id: 'late', body: 'c' }, 3000);
+        await schedule(redis, 'scheduled', { id: 'second', body: 'b' }, 1500);
+        await schedule(redis, 'scheduled', { id: 'first', body: 'a' }, 1000);
+
+        const due = await claimDue(redis, 'scheduled', { limit: 5, leaseSeconds: 60, now: 2000 * 1000 });
+
+        expect(due.map(({ id, body }) => ({ id, body }))).toEqual([
+            { id: 'first', body: 'a' },
+            { id: 'second', body: 'b' },
+        ]);
+        expect(await claimDue(redis, 'scheduled', { limit: 5, leaseSeconds: 60, now: 2000 * 1000 })).toEqual([]);
+    });
+
+    it('makes claimed items due again after the lease unless they are unscheduled', async () => {
+        await schedule(redis, 'scheduled', { id: 'done', body: 'a' }, 1000);
+        await schedule(redis, 'scheduled', { id: 'failed', body: 'b' }, 1000);
+
+        const [done] = await claimDue(redis, 'scheduled', { limit: 1, leaseSeconds: 60, now: 1000 * 1000 });
+        await claimDue(redis, 'scheduled', { limit: 1, leaseSeconds: 60, now: 1000 * 1000 });
+        await unschedule(redis, 'scheduled', done);
+
+        const retried = await claimDue(redis, 'scheduled', { limit: 5, leaseSeconds: 60, now: 1060 * 1000 });
+        expect(retried.map((item) => item.id)).toEqual(['failed']);
+    });
+
+    it('counts the claims of each item towards its receive count', async () => {
+        await schedule(redis, 'scheduled', { id: 'm1', body: '{"tokens":["a"],"attempts":3}' }, 1000);
+
+        const claims = [];
+        for (let now = 1000; now <= 1120; now += 60) {
+            claims.push(...(await claimDue(redis, 'scheduled', { limit: 5, leaseSeconds: 60, now: now * 1000 })));
+        }
+
+        expect(claims.map(({ id, body, attempts }) => ({ id, body, attempts }))).toEqual([
+            { id: 'm1', body: '{"tokens":["a"],"attempts":3}', attempts: 1 },
+            { id: 'm1', body: '{"tokens":["a"],"attempts":3}', attempts: 2 },
+            { id: 'm1', body: '{"tokens":["a"],"attempts":3}', attempts: 3 },
+        ]);
+        expect(scheduledRecord(claims[2], QUEUE_ARN).attributes.ApproximateReceiveCount).toBe('3');
+
+        await unschedule(redis, 'scheduled', claims[2]);
+        expect(await redis.zcard('scheduled')).toBe(0);
+    });
+});
+
+describe('deferRecord', () => {
+    it('re-sends the record to arrive at its send time, keeping its requeue count', async () => {
+        const sent: SendMessageInput[] = [];
+        const record = {
+            messageId: 'm1',
+            body: '{"sendAt":"..."}',
+            eventSourceARN: QUEUE_ARN,
+            messageAttributes: { RequeueCount: { stringValue: '2', dataType: 'String' } },
+        } as unknown as SQSRecord;
+
+        await deferRecord({ sendMessage: async (input) => void sent.push(input) }, record, 1120.2, 1000 * 1000);
+
+        expect(sent).toEqual([
+            {
+                queueUrl: 'https://sqs.ap-southeast-1.amazonaws.com/123456789012/fcm-main-queue-sqs-staging',
+                body: record.body,
+                delaySeconds: 121,
+                messageAttributes: { RequeueCount: '2' },
+            },
+        ]);
+    });
+});
+
+describe('scheduledRecord', () => {
+    it('rebuilds a delivery from the main queue', () => {
+        const record = scheduledRecord({ id: 'm1', body: '{}', member: '', attempts: 1 }, QUEUE_ARN, 5000);
+
+        expect(record).toMatchObject({
+            messageId: 'm1',
+            body: '{}',
+            attributes: { ApproximateReceiveCount: '1', SentTimestamp: '5000' },
+            messageAttributes: {},
+            eventSourceARN: QUEUE_ARN,
+            awsRegion: 'ap-southeast-1',
+        });
+    });
+});
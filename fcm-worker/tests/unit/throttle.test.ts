@@ -1,5 +1,26 @@
-import Redis from 'ioredis';
-import { durationAcquire, throttle, DurationAcquireResult } from '../../throttle';
+import Redis, { Cluster } from 'ioredis';
+import {
+    durationAcquire,
+    slidingAcquire,
+    tokenBucketAcquire,
+    throttle,
+    DurationAcquireResult,
+    LimiterStrategy,
+    LIMITER_STRATEGIES,
+    compositeAcquire,
+    throttleAll,
+    fairQueueTurn,
+    leaveFairQueue,
+    remainingTimeSignal,
+    concurrency,
+    concurrencyAcquire,
+    concurrencyRelease,
+    limiterRefund,
+    limiterAdmin,
+    pauseLimiter,
+    limiterPausedUntil,
+    LimiterTimeoutException,
+} from '../../throttle';
 
 jest.setTimeout(30000);
 
@@ -369,6 +390,7 @@ describe('DurationLimiterBuilder / throttle helper', () => {
             name: 'LimiterTimeoutException',
             message: 'LimiterTimeoutException',
         });
+        await expect(promise).rejects.toBeInstanceOf(LimiterTimeoutException);
 
         expect(callback).not.toHaveBeenCalled();
     });
@@ -413,3 +435,871 @@ describe('DurationLimiterBuilder / throttle helper', () => {
         expect(['cb1', 'cb2', 'f1', 'f2']).toContain(r2);
     });
 });
+
+describe('limiter strategies', () => {
+    let redis: Redis;
+    const realNow = Date.now;
+
+    const alignedBaseSec = 2_000_000_000;
+    const at = (offsetSeconds: number) => {
+        Date.now = () => (alignedBaseSec + offsetSeconds) * 1000;
+    };
+
+    beforeAll(async () => {
+        redis = new Redis({
+            host: '127.0.0.1',
+            port: 6379,
+            connectTimeout: 2000,
+        });
+        await redis.ping();
+    });
+
+    afterAll(async () => {
+        await redis.quit();
+    });
+
+    beforeEach(async () => {
+        await redis.flushall();
+    });
+
+    afterEach(() => {
+        Date.now = realNow;
+    });
+
+    /**
+     * allow(2).every(10): one acquire at t=0, then bursts right before and right after t=10.
+     * Returns how many acquires were allowed inside [9.9, 10.1].
+     */
+    const boundaryBurst = async (strategy: LimiterStrategy) => {
+        const acquire = () =>
+            throttle(redis, `strategy_${strategy}`)
+                .allow(2)
+                .every(10)
+                .block(0)
+                .strategy(strategy)
+                .then(() => true);
+
+        at(0);
+        await acquire();
+
+        let allowedInBurst = 0;
+        for (const offset of [9.9, 9.9, 10.1, 10.1]) {
+            at(offset);
+            if (await acquire()) {
+                allowedInBurst++;
+            }
+        }
+        return allowedInBurst;
+    };
+
+    it('lets the fixed window burst past the limit across a window boundary', async () => {
+        expect(await boundaryBurst('fixed')).toBe(3);
+    });
+
+    it('keeps the sliding window within the limit across a window boundary', async () => {
+        expect(await boundaryBurst('sliding')).toBe(2);
+    });
+
+    it('keeps the token bucket within the limit across a window boundary', async () => {
+        expect(await boundaryBurst('token-bucket')).toBe(2);
+    });
+
+    it('sliding window reports when the oldest acquire leaves the window', async () => {
+        at(0);
+        const first = await slidingAcquire(redis, 'sliding_decays', 2, 10);
+        at(4);
+        const second = await slidingAcquire(redis, 'sliding_decays', 2, 10);
+        at(5);
+        const blocked = await slidingAcquire(redis, 'sliding_decays', 2, 10);
+
+        expect(first).toEqual({ allowed: true, decaysAt: alignedBaseSec + 10, remaining: 1, granted: 1 });
+        expect(second).toEqual({ allowed: true, decaysAt: alignedBaseSec + 10, remaining: 0, granted: 1 });
+        expect(blocked).toEqual({ allowed: false, decaysAt: alignedBaseSec + 10, remaining: 0, granted: 0 });
+
+        // The first acquire has left the window
+        at(10.5);
+        const afterDecay = await slidingAcquire(redis, 'sliding_decays', 2, 10);
+        expect(afterDecay.allowed).toBe(true);
+        expect(afterDecay.decaysAt).toBe(alignedBaseSec + 14);
+    });
+
+    it('token bucket refills one token every decay / maxLocks seconds', async () => {
+        at(0);
+        const results = [];
+        for (let i = 0; i < 5; i++) {
+            results.push(await tokenBucketAcquire(redis, 'bucket_refill', 4, 8));
+        }
+
+        expect(results.map((r) => r.allowed)).toEqual([true, true, true, true, false]);
+        expect(results.map((r) => r.remaining)).toEqual([3, 2, 1, 0, 0]);
+        // Next token arrives after one interval (8 / 4 = 2 seconds)
+        expect(results[4].decaysAt).toBe(alignedBaseSec + 2);
+
+        at(2);
+        expect((await tokenBucketAcquire(redis, 'bucket_refill', 4, 8)).allowed).toBe(true);
+        expect((await tokenBucketAcquire(redis, 'bucket_refill', 4, 8)).allowed).toBe(false);
+    });
+});
+
+describe('multi-permit acquisition', () => {
+    let redis: Redis;
+    const strategies: LimiterStrategy[] = ['fixed', 'sliding', 'token-bucket'];
+
+    beforeAll(async () => {
+        redis = new Redis({
+            host: '127.0.0.1',
+            port: 6379,
+            connectTimeout: 2000,
+        });
+        await redis.ping();
+    });
+
+    afterAll(async () => {
+        await redis.quit();
+    });
+
+    beforeEach(async () => {
+        await redis.flushall();
+    });
+
+    it.each(strategies)('%s: takes N permits atomically, all or nothing', async (strategy) => {
+        const acquire = LIMITER_STRATEGIES[strategy];
+        const key = `multi_all_or_nothing_${strategy}`;
+
+        const first = await acquire(redis, key, 10, 60, { cost: 7 });
+        const tooMany = await acquire(redis, key, 10, 60, { cost: 4 });
+        const fits = await acquire(redis, key, 10, 60, { cost: 3 });
+
+        expect(first).toMatchObject({ allowed: true, remaining: 3, granted: 7 });
+        expect(tooMany).toMatchObject({ allowed: false, granted: 0 });
+        expect(fits).toMatchObject({ allowed: true, remaining: 0, granted: 3 });
+    });
+
+    it.each(strategies)('%s: grants what is left when partial grants are enabled', async (strategy) => {
+        const acquire = LIMITER_STRATEGIES[strategy];
+        const key = `multi_partial_${strategy}`;
+
+        await acquire(redis, key, 10, 60, { cost: 7 });
+        const partial = await acquire(redis, key, 10, 60, { cost: 5, partial: true });
+        const empty = await acquire(redis, key, 10, 60, { cost: 5, partial: true });
+
+        expect(partial).toMatchObject({ allowed: true, remaining: 0, granted: 3 });
+        expect(empty).toMatchObject({ allowed: false, remaining: 0, granted: 0 });
+    });
+
+    it('rejects a cost larger than the whole window', async () => {
+        const res = await durationAcquire(redis, 'multi_too_large', 5, 60, { cost: 6 });
+
+        expect(res).toMatchObject({ allowed: false, granted: 0 });
+    });
+
+    it('rejects invalid costs before calling Redis', async () => {
+        await expect(durationAcquire(redis, 'multi_invalid', 5, 60, { cost: 0 })).rejects.toThrow(
+            'Invalid limiter cost: 0',
+        );
+    });
+
+    it('builder take(n) reserves n permits and passes the grant to the callback', async () => {
+        const callback = jest.fn().mockResolvedValue('ok');
+        const failure = jest.fn().mockResolvedValue('throttled');
+
+        const first = await throttle(redis, 'builder_take').allow(10).every(60).block(0).take(8).then(callback);
+        const second = await throttle(redis, 'builder_take')
+            .allow(10)
+            .every(60)
+            .block(0)
+            .take(3)
+            .then(callback, failure);
+        const partial = await throttle(redis, 'builder_take')
+            .allow(10)
+            .every(60)
+            .block(0)
+            .take(3)
+            .partial()
+            .then(callback, failure);
+
+        expect(first).toBe('ok');
+        expect(second).toBe('throttled');
+        expect(partial).toBe('ok');
+        expect(callback).toHaveBeenCalledTimes(2);
+        expect(callback.mock.calls[0][0]).toMatchObject({ granted: 8, remaining: 2 });
+        expect(callback.mock.calls[1][0]).toMatchObject({ granted: 2, remaining: 0 });
+    });
+});
+
+describe('composite limiter', () => {
+    let redis: Redis;
+
+    const rules = [
+        { name: 'composite:global', maxLocks: 5, decay: 60, label: 'global' },
+        { name: 'composite:project:p1', maxLocks: 3, decay: 60, label: 'project' },
+        { name: 'composite:topic:news', maxLocks: 1, decay: 10, label: 'topic' },
+    ];
+
+    beforeAll(async () => {
+        redis = new Redis({
+            host: '127.0.0.1',
+            port: 6379,
+            connectTimeout: 2000,
+        });
+        await redis.ping();
+    });
+
+    afterAll(async () => {
+        await redis.quit();
+    });
+
+    beforeEach(async () => {
+        await redis.flushall();
+    });
+
+    it('refuses rules on several cluster slots before calling Redis', async () => {
+        const cluster = { isCluster: true, eval: jest.fn() } as unknown as Redis;
+
+        await expect(compositeAcquire(cluster, rules)).rejects.toThrow('Keys must share a hash tag in cluster mode');
+        expect(cluster.eval).not.toHaveBeenCalled();
+    });
+
+    it('allows when every rule has room and reports the tightest rule', async () => {
+        const res = await compositeAcquire(redis, rules.slice(0, 2));
+
+        expect(res.allowed).toBe(true);
+        expect(res.remaining).toBe(2);
+        expect(res.ruleRemaining).toEqual({ global: 4, project: 2 });
+        expect(res.rejectedBy).toBeUndefined();
+        expect(Number(await redis.hget('composite:global', 'count'))).toBe(1);
+        expect(Number(await redis.hget('composite:project:p1', 'count'))).toBe(1);
+    });
+
+    it('names the rule that rejected and commits nothing', async () => {
+        const first = await compositeAcquire(redis, rules);
+        const second = await compositeAcquire(redis, rules);
+
+        expect(first.allowed).toBe(true);
+        expect(second).toMatchObject({ allowed: false, rejectedBy: 'topic', granted: 0 });
+        expect(second.ruleRemaining).toEqual({ global: 4, project: 2, topic: 0 });
+        expect(Number(await redis.hget('composite:global', 'count'))).toBe(1);
+        expect(Number(await redis.hget('composite:project:p1', 'count'))).toBe(1);
+
+        // Other topics still pass the same global and project rules
+        const otherTopic = await compositeAcquire(redis, [
+            ...rules.slice(0, 2),
+            { name: 'composite:topic:sports', maxLocks: 1, decay: 10 },
+        ]);
+        expect(otherTopic.allowed).toBe(true);
+        expect(Number(await redis.hget('composite:project:p1', 'count'))).toBe(2);
+    });
+
+    it('reports the first rejecting rule and the latest decay among rejecting rules', async () => {
+        const realNow = Date.now;
+        const base = 2_000_000_000;
+        Date.now = () => base * 1000;
+
+        const tight = [
+            { name: 'composite:a', maxLocks: 1, decay: 10, label: 'a' },
+            { name: 'composite:b', maxLocks: 1, decay: 30, label: 'b' },
+        ];
+        await compositeAcquire(redis, tight);
+        const rejected = await compositeAcquire(redis, tight);
+
+        Date.now = realNow;
+
+        expect(rejected).toMatchObject({ allowed: false, rejectedBy: 'a', decaysAt: base + 30 });
+    });
+
+    it('starts a new window for a rule once it has decayed', async () => {
+        const realNow = Date.now;
+        const base = 2_000_000_000;
+        Date.now = () => base * 1000;
+
+        await compositeAcquire(redis, rules);
+        Date.now = () => (base + 11) * 1000;
+        const afterTopicWindow = await compositeAcquire(redis, rules);
+
+        Date.now = realNow;
+
+        expect(afterTopicWindow.allowed).toBe(true);
+        expect(Number(await redis.hget('composite:topic:news', 'count'))).toBe(1);
+        expect(Number(await redis.hget('composite:global', 'count'))).toBe(2);
+    });
+
+    it('takes N permits from every rule', async () => {
+        const res = await compositeAcquire(redis, rules.slice(0, 2), { cost: 3 });
+        const rejected = await compositeAcquire(redis, rules.slice(0, 2), { cost: 1 });
+
+        expect(res).toMatchObject({ allowed: true, remaining: 0, granted: 3 });
+        expect(rejected).toMatchObject({ allowed: false, rejectedBy: 'project' });
+    });
+
+    it('throttleAll builder runs the callback only when every rule passes', async () => {
+        const callback = jest.fn().mockResolvedValue('sent');
+        const failure = jest.fn().mockResolvedValue('throttled');
+
+        const build = () =>
+            throttleAll(redis)
+                .rule('composite:global', 5, 60, 'global')
+                .rule('composite:token:abc', 1, 60, 'token')
+                .block(0);
+
+        expect(await build().then(callback, failure)).toBe('sent');
+        expect(await build().then(callback, failure)).toBe('throttled');
+        expect(failure.mock.calls[0][0]).toMatchObject({ rejectedBy: 'token' });
+    });
+
+    it('requires at least one rule', async () => {
+        await expect(compositeAcquire(redis, [])).rejects.toThrow('Composite limiter needs at least one rule');
+    });
+});
+
+describe('server clock', () => {
+    let redis: Redis;
+    const realNow = Date.now;
+
+    // Simulate a worker whose clock is `skewSeconds` off
+    const onWorker = <T>(skewSeconds: number, run: () => Promise<T>): Promise<T> => {
+        Date.now = () => realNow() + skewSeconds * 1000;
+        return run().finally(() => {
+            Date.now = realNow;
+        });
+    };
+
+    beforeAll(async () => {
+        redis = new Redis({
+            host: '127.0.0.1',
+            port: 6379,
+            connectTimeout: 2000,
+        });
+        await redis.ping();
+    });
+
+    afterAll(async () => {
+        await redis.quit();
+    });
+
+    beforeEach(async () => {
+        await redis.flushall();
+    });
+
+    it('lets skewed client clocks reset each other’s windows', async () => {
+        const ahead = await onWorker(15, () => durationAcquire(redis, 'skew_client', 1, 10));
+        const behind = await onWorker(-15, () => durationAcquire(redis, 'skew_client', 1, 10));
+
+        // Each worker thinks the other's window is over, so both get the single permit
+        expect(ahead.allowed).toBe(true);
+        expect(behind.allowed).toBe(true);
+    });
+
+    it.each(['fixed', 'sliding', 'token-bucket'] as LimiterStrategy[])(
+        '%s strategy keeps one window across skewed workers with the server clock',
+        async (strategy) => {
+            const acquire = LIMITER_STRATEGIES[strategy];
+            const key = `skew_server_${strategy}`;
+
+            const first = await onWorker(15, () => acquire(redis, key, 2, 10, { clock: 'server' }));
+            const second = await onWorker(-15, () => acquire(redis, key, 2, 10, { clock: 'server' }));
+            const third = await onWorker(30, () => acquire(redis, key, 2, 10, { clock: 'server' }));
+
+            expect([first.allowed, second.allowed, third.allowed]).toEqual([true, true, false]);
+        },
+    );
+
+    it('reports decaysAt on the server clock', async () => {
+        const before = realNow() / 1000;
+        const res = await onWorker(-3600, () => durationAcquire(redis, 'skew_decay', 1, 10, { clock: 'server' }));
+
+        expect(res.decaysAt).toBeGreaterThanOrEqual(Math.floor(before) + 10);
+        expect(res.decaysAt).toBeLessThanOrEqual(realNow() / 1000 + 10);
+    });
+
+    it('applies to composite rules', async () => {
+        const rules = [
+            { name: 'skew_composite:global', maxLocks: 5, decay: 60, label: 'global' },
+            { name: 'skew_composite:token', maxLocks: 1, decay: 10, label: 'token' },
+        ];
+
+        const first = await onWorker(15, () => compositeAcquire(redis, rules, { clock: 'server' }));
+        const second = await onWorker(-15, () => compositeAcquire(redis, rules, { clock: 'server' }));
+
+        expect(first.allowed).toBe(true);
+        expect(second).toMatchObject({ allowed: false, rejectedBy: 'token' });
+    });
+
+    it('serverTime() switches the builders to the server clock', async () => {
+        const callback = jest.fn().mockResolvedValue('ok');
+        const build = () => throttle(redis, 'skew_builder').allow(1).every(10).block(0).serverTime();
+
+        expect(build().clock).toBe('server');
+        expect(throttleAll(redis).serverTime().clock).toBe('server');
+        expect(await onWorker(15, () => build().then(callback))).toBe('ok');
+        expect(await onWorker(-15, () => build().then(callback))).toBe(false);
+        expect(callback).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('waiting for a slot', () => {
+    let redis: Redis;
+
+    const pause = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+    beforeAll(async () => {
+        redis = new Redis({
+            host: '127.0.0.1',
+            port: 6379,
+            connectTimeout: 2000,
+        });
+        await redis.ping();
+    });
+
+    afterAll(async () => {
+        await redis.quit();
+    });
+
+    beforeEach(async () => {
+        await redis.flushall();
+    });
+
+    it('untilDecay sleeps until the window decays instead of polling', async () => {
+        await durationAcquire(redis, 'wait_decay', 1, 1);
+        const evalSpy = jest.spyOn(redis, 'eval');
+
+        const result = await throttle(redis, 'wait_decay')
+            .allow(1)
+            .every(1)
+            .block(3)
+            .sleep(10)
+            .untilDecay(0)
+            .then(() => 'ok');
+
+        expect(result).toBe('ok');
+        // Polling every 10ms would take ~100 attempts to cross into the next window
+        expect(evalSpy.mock.calls.length).toBeLessThanOrEqual(3);
+        evalSpy.mockRestore();
+    });
+
+    it('waits out a pause without taking permits', async () => {
+        const until = await pauseLimiter(redis, 'wait_pause:paused', Date.now() / 1000 + 0.3);
+        // A shorter pause doesn't end it early
+        expect(await pauseLimiter(redis, 'wait_pause:paused', Date.now() / 1000)).toBe(until);
+
+        const builder = () => throttle(redis, 'wait_pause').allow(1).every(60).pausedBy('wait_pause:paused');
+        expect(await builder().check()).toMatchObject({ allowed: false, paused: true, decaysAt: until });
+        expect(await redis.exists('wait_pause')).toBe(0);
+
+        const result = await builder()
+            .block(3)
+            .untilDecay(0)
+            .then(() => 'ok');
+
+        expect(result).toBe('ok');
+        expect(Date.now() / 1000).toBeGreaterThanOrEqual(until);
+        expect(await limiterPausedUntil(redis, 'wait_pause:paused')).toBeUndefined();
+    });
+
+    it('untilDecay never sleeps past the timeout', async () => {
+        await durationAcquire(redis, 'wait_decay_timeout', 1, 60);
+        const start = Date.now();
+
+        await expect(
+            throttle(redis, 'wait_decay_timeout').allow(1).every(60).block(0.3).untilDecay().then(jest.fn()),
+        ).rejects.toThrow('LimiterTimeoutException');
+
+        expect(Date.now() - start).toBeLessThan(2000);
+    });
+
+    it('stops waiting when the signal aborts', async () => {
+        await durationAcquire(redis, 'wait_abort', 1, 60);
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 100);
+        const start = Date.now();
+
+        await expect(
+            throttle(redis, 'wait_abort').allow(1).every(60).block(30).signal(controller.signal).then(jest.fn()),
+        ).rejects.toMatchObject({ name: 'LimiterAbortedException' });
+
+        expect(Date.now() - start).toBeLessThan(2000);
+    });
+
+    it('passes the last rejection to failure when aborted', async () => {
+        await durationAcquire(redis, 'wait_abort_failure', 1, 60);
+        const failure = jest.fn().mockResolvedValue('gave up');
+        const signal = remainingTimeSignal({ getRemainingTimeInMillis: () => 1100 }, 1000);
+
+        const result = await throttle(redis, 'wait_abort_failure')
+            .allow(1)
+            .every(60)
+            .block(30)
+            .signal(signal)
+            .then(jest.fn(), failure);
+
+        expect(result).toBe('gave up');
+        expect(signal.aborted).toBe(true);
+        expect(failure.mock.calls[0][0]).toMatchObject({ allowed: false });
+    });
+
+    it('fair waiters acquire in arrival order and leave the queue', async () => {
+        await durationAcquire(redis, 'wait_fair', 1, 1);
+        const order: string[] = [];
+
+        const waiters: Promise<unknown>[] = [];
+        for (const name of ['a', 'b', 'c']) {
+            waiters.push(
+                throttle(redis, 'wait_fair')
+                    .allow(1)
+                    .every(1)
+                    .block(10)
+                    .sleep(20)
+                    .fair()
+                    .then(() => order.push(name)),
+            );
+            await pause(30);
+        }
+        await Promise.all(waiters);
+
+        expect(order).toEqual(['a', 'b', 'c']);
+        expect(await redis.zcard('{wait_fair}:queue')).toBe(0);
+    });
+
+    it('composite builders queue on the first rule by default', async () => {
+        const callback = jest.fn().mockResolvedValue('sent');
+
+        await throttleAll(redis).rule('wait_fair_global', 5, 60).block(1).fair().then(callback);
+
+        expect(callback).toHaveBeenCalledTimes(1);
+        expect(await redis.exists('{wait_fair_global}:queue:ticket')).toBe(1);
+        expect(await redis.exists('{composite}:queue:ticket')).toBe(0);
+    });
+
+    describe('fairQueueTurn', () => {
+        it('hands out tickets in order and moves the head when a waiter leaves', async () => {
+            const first = await fairQueueTurn(redis, 'q', undefined, 10);
+            const second = await fairQueueTurn(redis, 'q', undefined, 10);
+
+            expect(first).toEqual({ ticket: '1', head: true });
+            expect(second).toEqual({ ticket: '2', head: false });
+
+            await leaveFairQueue(redis, 'q', first.ticket);
+            expect(await fairQueueTurn(redis, 'q', second.ticket, 10)).toEqual({ ticket: '2', head: true });
+        });
+
+        it('drops waiters whose lease ran out', async () => {
+            const crashed = await fairQueueTurn(redis, 'q', undefined, 0.05);
+            const waiting = await fairQueueTurn(redis, 'q', undefined, 10);
+
+            expect(crashed.head).toBe(true);
+            expect(waiting.head).toBe(false);
+
+            await pause(100);
+            expect(await fairQueueTurn(redis, 'q', waiting.ticket, 10)).toEqual({ ticket: '2', head: true });
+        });
+    });
+});
+
+describe('concurrency limiter', () => {
+    let redis: Redis;
+
+    const pause = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+    beforeAll(async () => {
+        redis = new Redis({
+            host: '127.0.0.1',
+            port: 6379,
+            connectTimeout: 2000,
+        });
+        await redis.ping();
+    });
+
+    afterAll(async () => {
+        await redis.quit();
+    });
+
+    beforeEach(async () => {
+        await redis.flushall();
+    });
+
+    it('hands out at most `limit` slots until they are released', async () => {
+        const first = await concurrencyAcquire(redis, 'sem', 2, 60);
+        const second = await concurrencyAcquire(redis, 'sem', 2, 60);
+        const third = await concurrencyAcquire(redis, 'sem', 2, 60);
+
+        expect(first).toMatchObject({ allowed: true, remaining: 1, granted: 1 });
+        expect(second).toMatchObject({ allowed: true, remaining: 0 });
+        expect(third).toMatchObject({ allowed: false, remaining: 0, granted: 0, holder: '' });
+        expect(third.decaysAt).toBeCloseTo(first.decaysAt, 2);
+
+        await concurrencyRelease(redis, 'sem', first.holder);
+        expect((await concurrencyAcquire(redis, 'sem', 2, 60)).allowed).toBe(true);
+    });
+
+    it('frees the slot of a holder whose lease expired', async () => {
+        await concurrencyAcquire(redis, 'sem_lease', 1, 0.05);
+        expect((await concurrencyAcquire(redis, 'sem_lease', 1, 60)).allowed).toBe(false);
+
+        await pause(100);
+        expect((await concurrencyAcquire(redis, 'sem_lease', 1, 60)).allowed).toBe(true);
+    });
+
+    it('releases the slot when the callback resolves or throws', async () => {
+        const sem = () => concurrency(redis, 'sem_release').limit(1).lease(60).block(0);
+
+        expect(await sem().then(async () => 'done')).toBe('done');
+        await expect(
+            sem().then(async () => {
+                throw new Error('send failed');
+            }),
+        ).rejects.toThrow('send failed');
+
+        expect(await redis.zcard('sem_release')).toBe(0);
+    });
+
+    it('calls failure with the limiter info when no slot is free', async () => {
+        await concurrencyAcquire(redis, 'sem_full', 1, 60);
+        const callback = jest.fn();
+        const failure = jest.fn().mockResolvedValue('busy');
+
+        expect(await concurrency(redis, 'sem_full').limit(1).block(0).then(callback, failure)).toBe('busy');
+        expect(callback).not.toHaveBeenCalled();
+        expect(failure.mock.calls[0][0]).toMatchObject({ allowed: false, remaining: 0 });
+    });
+
+    it('never runs more than `limit` callbacks at once across waiters', async () => {
+        let inFlight = 0;
+        let maxInFlight = 0;
+        const work = async () => {
+            inFlight++;
+            maxInFlight = Math.max(maxInFlight, inFlight);
+            await pause(50);
+            inFlight--;
+        };
+
+        await Promise.all(
+            Array.from({ length: 5 }, () =>
+                concurrency(redis, 'sem_wait').limit(2).lease(10).block(5).sleep(10).then(work),
+            ),
+        );
+
+        expect(maxInFlight).toBe(2);
+        expect(await redis.zcard('sem_wait')).toBe(0);
+    });
+});
+
+describe('peek and refund', () => {
+    let redis: Redis;
+
+    beforeAll(async () => {
+        redis = new Redis({
+            host: '127.0.0.1',
+            port: 6379,
+            connectTimeout: 2000,
+        });
+        await redis.ping();
+    });
+
+    afterAll(async () => {
+        await redis.quit();
+    });
+
+    beforeEach(async () => {
+        await redis.flushall();
+    });
+
+    it('does not count rejected attempts', async () => {
+        for (let i = 0; i < 5; i++) {
+            await durationAcquire(redis, 'refund_rejected', 1, 60);
+        }
+
+        expect(Number(await redis.hget('refund_rejected', 'count'))).toBe(1);
+    });
+
+    it('check() reports what would be granted without taking it', async () => {
+        const limiter = () => throttle(redis, 'refund_peek').allow(2).every(60).take(2);
+
+        expect(await limiter().check()).toMatchObject({ allowed: true, remaining: 2, granted: 2 });
+        expect(await redis.exists('refund_peek')).toBe(0);
+
+        await durationAcquire(redis, 'refund_peek', 2, 60);
+        expect(await limiter().check()).toMatchObject({ allowed: false, remaining: 1, granted: 0 });
+        expect(await limiter().take(1).check()).toMatchObject({ allowed: true, remaining: 1, granted: 1 });
+        expect(Number(await redis.hget('refund_peek', 'count'))).toBe(1);
+    });
+
+    it.each(['sliding', 'token-bucket'] as LimiterStrategy[])('%s strategy can peek', async (strategy) => {
+        const limiter = () => throttle(redis, `refund_peek_${strategy}`).allow(1).every(60).strategy(strategy);
+
+        expect((await limiter().check()).allowed).toBe(true);
+        expect((await limiter().check()).allowed).toBe(true);
+        expect(
+            await limiter()
+                .block(0)
+                .then(() => 'ok'),
+        ).toBe('ok');
+        expect((await limiter().check()).allowed).toBe(false);
+    });
+
+    it.each(['fixed', 'sliding', 'token-bucket'] as LimiterStrategy[])(
+        '%s strategy gives refunded permits back',
+        async (strategy) => {
+            const limiter = () => throttle(redis, `refund_${strategy}`).allow(2).every(60).strategy(strategy).block(0);
+
+            let info: DurationAcquireResult | undefined;
+            await limiter()
+                .take(2)
+                .then((res) => (info = res));
+
+            expect((await limiter().check()).allowed).toBe(false);
+            expect(await limiter().refund(info as DurationAcquireResult)).toBe(2);
+            expect((await limiter().take(2).check()).allowed).toBe(true);
+        },
+    );
+
+    it('does not refund into a window that has been reset since', async () => {
+        const realNow = Date.now;
+        const base = 2_000_000_000;
+        Date.now = () => base * 1000;
+        const old = await durationAcquire(redis, 'refund_reset', 1, 60);
+
+        Date.now = () => (base + 61) * 1000;
+        await durationAcquire(redis, 'refund_reset', 1, 60);
+        const refunded = await limiterRefund(redis, ['refund_reset'], 'fixed', old, { maxLocks: 1, decay: 60 });
+
+        Date.now = realNow;
+
+        expect(refunded).toBe(0);
+        expect(Number(await redis.hget('refund_reset', 'count'))).toBe(1);
+    });
+
+    it('refunds every rule of a composite limiter', async () => {
+        const limiter = () =>
+            throttleAll(redis).rule('refund_composite:global', 5, 60).rule('refund_composite:topic', 1, 60).block(0);
+
+        let info: DurationAcquireResult | undefined;
+        await limiter().then((res) => (info = res));
+        expect((await limiter().check()).allowed).toBe(false);
+
+        expect(await limiter().refund(info as DurationAcquireResult)).toBe(1);
+        expect(Number(await redis.hget('refund_composite:global', 'count'))).toBe(0);
+        expect(Number(await redis.hget('refund_composite:topic', 'count'))).toBe(0);
+    });
+
+    it('refundOnError gives the slot back when the callback fails before sending', async () => {
+        const limiter = () =>
+            throttle(redis, 'refund_on_error')
+                .allow(1)
+                .every(60)
+                .block(0)
+                .refundOnError((err) => err instanceof TypeError);
+
+        await expect(
+            limiter().then(() => {
+                throw new TypeError('invalid payload');
+            }),
+        ).rejects.toThrow('invalid payload');
+        expect(Number(await redis.hget('refund_on_error', 'count'))).toBe(0);
+
+        await expect(
+            limiter().then(() => {
+                throw new Error('sent but failed');
+            }),
+        ).rejects.toThrow('sent but failed');
+        expect(Number(await redis.hget('refund_on_error', 'count'))).toBe(1);
+    });
+
+    it('does not refund rejected acquires', async () => {
+        expect(
+            await limiterRefund(
+                redis,
+                ['refund_none'],
+                'fixed',
+                { allowed: false, decaysAt: 0, remaining: 0 },
+                {
+                    maxLocks: 1,
+                    decay: 60,
+                },
+            ),
+        ).toBe(0);
+    });
+});
+
+describe('limiterAdmin', () => {
+    let redis: Redis;
+
+    beforeAll(async () => {
+        redis = new Redis({
+            host: '127.0.0.1',
+            port: 6379,
+            connectTimeout: 2000,
+        });
+        await redis.ping();
+    });
+
+    afterAll(async () => {
+        await redis.quit();
+    });
+
+    beforeEach(async () => {
+        await redis.flushall();
+    });
+
+    it('inspects a fixed window without changing it', async () => {
+        const first = await durationAcquire(redis, 'admin:fixed', 5, 60);
+        await durationAcquire(redis, 'admin:fixed', 5, 60);
+
+        const state = await limiterAdmin(redis).inspect('admin:fixed');
+
+        expect(state).toMatchObject({ name: 'admin:fixed', type: 'hash', count: 2, max: 5, remaining: 3 });
+        expect(state?.end).toBe(first.decaysAt);
+        expect(state?.start).toBe(first.decaysAt - 60);
+        expect(state?.ttl).toBeGreaterThan(0);
+        expect(Number(await redis.hget('admin:fixed', 'count'))).toBe(2);
+    });
+
+    it('inspects sorted sets and token buckets', async () => {
+        await slidingAcquire(redis, 'admin:sliding', 5, 60, { cost: 3 });
+        const bucket = await tokenBucketAcquire(redis, 'admin:bucket', 5, 60);
+
+        expect(await limiterAdmin(redis).inspect('admin:sliding')).toMatchObject({ type: 'zset', count: 3 });
+        expect(await limiterAdmin(redis).inspect('admin:bucket')).toMatchObject({
+            type: 'string',
+            fullAt: bucket.decaysAt,
+        });
+        expect(await limiterAdmin(redis).inspect('admin:missing')).toBeNull();
+    });
+
+    it('lists keys by prefix and resets them', async () => {
+        await durationAcquire(redis, 'admin:b', 1, 60);
+        await durationAcquire(redis, 'admin:a', 1, 60);
+        await durationAcquire(redis, 'other', 1, 60);
+        const admin = limiterAdmin(redis);
+
+        expect(await admin.list('admin:')).toEqual(['admin:a', 'admin:b']);
+
+        expect(await admin.reset('admin:a')).toBe(true);
+        expect(await admin.reset('admin:a')).toBe(false);
+        expect(await admin.list('admin:')).toEqual(['admin:b']);
+        expect((await durationAcquire(redis, 'admin:a', 1, 60)).allowed).toBe(true);
+    });
+
+    it('resets the limiter key and its fair queue in separate commands', async () => {
+        const cluster = { isCluster: true, del: jest.fn(async () => 0) } as unknown as Cluster;
+
+        expect(await limiterAdmin(cluster).reset('{fcm}:topic:news')).toBe(false);
+        expect((cluster.del as jest.Mock).mock.calls).toEqual([
+            ['{fcm}:topic:news'],
+            ['{fcm}:topic:news:queue', '{fcm}:topic:news:queue:leases', '{fcm}:topic:news:queue:ticket'],
+        ]);
+    });
+
+    it('lists the keys of every cluster master', async () => {
+        const master = (pages: Record<string, [string, string[]]>) => ({
+            scan: jest.fn(async (cursor: string) => pages[cursor]),
+        });
+        const masters = [
+            master({ '0': ['7', ['{admin}:b']], '7': ['0', ['{admin}:a']] }),
+            master({ '0': ['0', ['{admin}:c', '{admin}:a']] }),
+        ];
+        const cluster = { isCluster: true, nodes: jest.fn(() => masters) } as unknown as Cluster;
+
+        expect(await limiterAdmin(cluster).list('{admin}')).toEqual(['{admin}:a', '{admin}:b', '{admin}:c']);
+        expect(cluster.nodes).toHaveBeenCalledWith('master');
+        expect(masters[0].scan).toHaveBeenCalledWith('7', 'MATCH', '{admin}*', 'COUNT', 100);
+    });
+});
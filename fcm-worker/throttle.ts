@@ -1,40 +1,90 @@
-import type { Redis } from 'ioredis';
+import type { Cluster } from 'ioredis';
+import type { LimiterFallback } from './degraded';
+import { ThrottledError } from './errors';
+import { RedisClient, assertSameSlot, hashTag } from './redis';
 
-export const DURATION_LIMITER_LUA = `
+/**
+ * Lua helper shared by the limiter scripts: callers pass 'server' instead of a timestamp
+ * to take the time from the Redis server, so every worker shares one clock.
+ */
+const SERVER_CLOCK_LUA = `
+local function read_now(arg)
+  if arg ~= 'server' then
+    return tonumber(arg)
+  end
+  -- Scripts reading TIME must replicate their effects (the default since Redis 5)
+  if redis.replicate_commands then
+    redis.replicate_commands()
+  end
+  local time = redis.call('TIME')
+  return tonumber(time[1]) + tonumber(time[2]) / 1000000
+end
+`;
+
+export const DURATION_LIMITER_LUA = `${SERVER_CLOCK_LUA}
 -- KEYS[1]  : limiter key
--- ARGV[1]  : nowSeconds (float)
--- ARGV[2]  : nowIntSeconds (integer, window start)
+-- ARGV[1]  : nowSeconds (float, or 'server' for the Redis clock)
+-- ARGV[2]  : nowIntSeconds (integer, window start; 'server' for the Redis clock)
 -- ARGV[3]  : decay (window size in seconds)
 -- ARGV[4]  : maxLocks (max allowed operations per window)
+-- ARGV[5]  : cost (permits to take, default 1)
+-- ARGV[6]  : partial (1 = grant what is left when fewer than cost permits remain)
+-- ARGV[7]  : peek (1 = only report what would be granted, take nothing)
 
 local key        = KEYS[1]
-local now        = tonumber(ARGV[1])
-local now_start  = tonumber(ARGV[2])
+local now        = read_now(ARGV[1])
+local now_start  = tonumber(ARGV[2]) or math.floor(now)
 local decay      = tonumber(ARGV[3])
 local max_locks  = tonumber(ARGV[4])
+local cost       = tonumber(ARGV[5]) or 1
+local partial    = ARGV[6] == '1'
+local peek       = ARGV[7] == '1'
+
+-- How many of the requested permits fit into what is left
+local function grant(available)
+  if available < 0 then
+    available = 0
+  end
+  if cost <= available then
+    return cost
+  end
+  if partial then
+    return available
+  end
+  return 0
+end
 
 local function reset()
   -- Start a new window [now_start, now_start + decay]
   local window_start = now_start
   local window_end   = now_start + decay
 
+  -- A fresh window always admits at least one permit
+  local granted = grant(math.max(max_locks, 1))
+
+  if peek then
+    -- Return: { allowed, decaysAt, remaining, granted, acquiredAt } without starting the window
+    return { granted > 0, window_end, max_locks, granted, tostring(now) }
+  end
+
   redis.call('HSET',
     key,
     'start', window_start,
     'end',   window_end,
-    'count', 1
+    'count', granted,
+    'max',   max_locks
   )
 
   -- Keep the key alive for 2x the window size
   redis.call('EXPIRE', key, decay * 2)
 
-  local remaining = max_locks - 1
+  local remaining = max_locks - granted
   if remaining < 0 then
     remaining = 0
   end
 
-  -- Return: { allowed, decaysAt, remaining }
-  return { true, window_end, remaining }
+  -- Return: { allowed, decaysAt, remaining, granted, acquiredAt }
+  return { granted > 0, window_end, remaining, granted, tostring(now) }
 end
 
 -- If the limiter key does not exist, initialize a new window
@@ -48,66 +98,856 @@ local current_end   = tonumber(redis.call('HGET', key, 'end'))
 
 -- If we are still inside the current window
 if now >= current_start and now <= current_end then
-  -- Same as original logic: increment count with HINCRBY
-  local new_count = tonumber(redis.call('HINCRBY', key, 'count', 1))
+  local new_count = tonumber(redis.call('HGET', key, 'count'))
+  local granted   = grant(max_locks - new_count)
+
+  -- All or nothing: only count the permits actually granted
+  if granted > 0 and not peek then
+    new_count = tonumber(redis.call('HINCRBY', key, 'count', granted))
+  end
 
-  local allowed   = new_count <= max_locks
   local remaining = max_locks - new_count
   if remaining < 0 then
     remaining = 0
   end
 
-  -- Return: { allowed, decaysAt, remaining }
-  return { allowed, current_end, remaining }
+  -- Return: { allowed, decaysAt, remaining, granted, acquiredAt }
+  return { granted > 0, current_end, remaining, granted, tostring(now) }
 end
 
 -- Window expired: start a new window
 return reset()
 ` as const;
 
+export const SLIDING_WINDOW_LIMITER_LUA = `${SERVER_CLOCK_LUA}
+-- KEYS[1]  : limiter key (sorted set of acquire timestamps)
+-- ARGV[1]  : nowSeconds (float, or 'server' for the Redis clock)
+-- ARGV[2]  : decay (window size in seconds)
+-- ARGV[3]  : maxLocks (max allowed operations in any window of decay seconds)
+-- ARGV[4]  : member (unique id for this acquire)
+-- ARGV[5]  : cost (permits to take, default 1)
+-- ARGV[6]  : partial (1 = grant what is left when fewer than cost permits remain)
+-- ARGV[7]  : peek (1 = only report what would be granted, take nothing)
+
+local key        = KEYS[1]
+local now        = read_now(ARGV[1])
+local decay      = tonumber(ARGV[2])
+local max_locks  = tonumber(ARGV[3])
+local member     = ARGV[4]
+local cost       = tonumber(ARGV[5]) or 1
+local partial    = ARGV[6] == '1'
+local peek       = ARGV[7] == '1'
+
+-- Drop every acquire that left the window (now - decay, now]
+redis.call('ZREMRANGEBYSCORE', key, '-inf', now - decay)
+
+local count     = tonumber(redis.call('ZCARD', key))
+local available = math.max(max_locks - count, 0)
+
+local granted = 0
+if cost <= available then
+  granted = cost
+elseif partial then
+  granted = available
+end
+
+if not peek then
+  for i = 1, granted do
+    redis.call('ZADD', key, now, member .. ':' .. i)
+  end
+  count = count + granted
+
+  redis.call('PEXPIRE', key, math.ceil(decay * 1000))
+end
+
+-- The next slot frees up when the oldest acquire leaves the window
+local oldest    = redis.call('ZRANGE', key, 0, 0, 'WITHSCORES')
+local decays_at = now + decay
+if oldest[2] then
+  decays_at = tonumber(oldest[2]) + decay
+end
+
+local remaining = max_locks - count
+if remaining < 0 then
+  remaining = 0
+end
+
+-- Return: { allowed, decaysAt, remaining, granted } (decaysAt as string to keep the fraction)
+return { granted > 0 and 1 or 0, tostring(decays_at), remaining, granted }
+` as const;
+
+export const TOKEN_BUCKET_LIMITER_LUA = `${SERVER_CLOCK_LUA}
+-- GCRA (generic cell rate algorithm), equivalent to a token bucket of maxLocks
+-- tokens refilled continuously over decay seconds.
+-- KEYS[1]  : limiter key (theoretical arrival time, TAT)
+-- ARGV[1]  : nowSeconds (float, or 'server' for the Redis clock)
+-- ARGV[2]  : decay (seconds to refill the whole bucket)
+-- ARGV[3]  : maxLocks (bucket size)
+-- ARGV[4]  : cost (permits to take, default 1)
+-- ARGV[5]  : partial (1 = grant what is left when fewer than cost permits remain)
+-- ARGV[6]  : peek (1 = only report what would be granted, take nothing)
+
+local key        = KEYS[1]
+local now        = read_now(ARGV[1])
+local decay      = tonumber(ARGV[2])
+local max_locks  = tonumber(ARGV[3])
+local cost       = tonumber(ARGV[4]) or 1
+local partial    = ARGV[5] == '1'
+local peek       = ARGV[6] == '1'
+
+local interval = decay / max_locks
+
+local tat = tonumber(redis.call('GET', key))
+if not tat or tat < now then
+  tat = now
+end
+
+-- Tokens currently in the bucket (epsilon absorbs float error at exact refill times)
+local available = math.floor((now - (tat - decay)) / interval + 1e-6)
+if available > max_locks then
+  available = max_locks
+end
+
+local granted = 0
+if cost <= available then
+  granted = cost
+elseif partial then
+  granted = available
+end
+
+if granted == 0 then
+  -- Not enough tokens: report when the missing ones will have arrived
+  local needed = partial and 1 or cost
+  return { 0, tostring(tat - decay + interval * needed), 0, 0 }
+end
+
+local new_tat = tat + interval * granted
+
+if peek then
+  return { 1, tostring(new_tat), available, granted }
+end
+
+redis.call('SET', key, tostring(new_tat), 'PX', math.ceil(decay * 1000))
+
+-- Return: { allowed, decaysAt (bucket full again), remaining, granted }
+return { 1, tostring(new_tat), available - granted, granted }
+` as const;
+
+export const COMPOSITE_LIMITER_LUA = `${SERVER_CLOCK_LUA}
+-- Fixed windows for several rules, committed only when every rule has room.
+-- KEYS[i]          : limiter key of rule i (same hash layout as DURATION_LIMITER_LUA)
+-- ARGV[1]          : nowSeconds (float, or 'server' for the Redis clock)
+-- ARGV[2]          : nowIntSeconds (integer, window start; 'server' for the Redis clock)
+-- ARGV[3]          : cost (permits to take)
+-- ARGV[2 + 2 * i]  : decay of rule i
+-- ARGV[3 + 2 * i]  : maxLocks of rule i
+-- ARGV[4 + 2 * n]  : peek (1 = only report whether every rule has room, take nothing)
+
+local now        = read_now(ARGV[1])
+local now_start  = tonumber(ARGV[2]) or math.floor(now)
+local cost       = tonumber(ARGV[3])
+local peek       = ARGV[4 + 2 * #KEYS] == '1'
+
+local windows            = {}
+local rejected           = 0
+local rejected_decays_at = 0
+local rejected_remaining = 0
+
+for i, key in ipairs(KEYS) do
+  local decay     = tonumber(ARGV[2 + 2 * i])
+  local max_locks = tonumber(ARGV[3 + 2 * i])
+
+  local window_start = tonumber(redis.call('HGET', key, 'start'))
+  local window_end   = tonumber(redis.call('HGET', key, 'end'))
+  local count        = tonumber(redis.call('HGET', key, 'count')) or 0
+  local capacity     = max_locks
+  local fresh        = not window_start or not window_end or now < window_start or now > window_end
+
+  if fresh then
+    -- A fresh window always admits at least one permit
+    window_start = now_start
+    window_end   = now_start + decay
+    count        = 0
+    capacity     = math.max(max_locks, 1)
+  end
+
+  windows[i] = { window_start, window_end, count, fresh, decay, max_locks }
+
+  if count + cost > capacity then
+    if rejected == 0 then
+      rejected           = i
+      rejected_remaining = math.max(max_locks - count, 0)
+    end
+    -- Report when every rejecting rule will have decayed
+    if window_end > rejected_decays_at then
+      rejected_decays_at = window_end
+    end
+  end
+end
+
+if rejected > 0 then
+  local rule_remaining = {}
+  for i, w in ipairs(windows) do
+    rule_remaining[i] = math.max(w[6] - w[3], 0)
+  end
+  -- Return: { allowed, decaysAt, remaining, granted, rejectedRule, acquiredAt, remaining of each rule... }
+  return { 0, rejected_decays_at, rejected_remaining, 0, rejected, tostring(now), unpack(rule_remaining) }
+end
+
+-- Peeking reports what is left now instead of after taking
+local taken = cost
+if peek then
+  taken = 0
+end
+
+local decays_at      = 0
+local remaining      = nil
+local rule_remaining = {}
+
+for i, key in ipairs(KEYS) do
+  local w = windows[i]
+  if peek then
+    -- Nothing to write
+  elseif w[4] then
+    redis.call('HSET', key, 'start', w[1], 'end', w[2], 'count', cost, 'max', w[6])
+    -- Keep the key alive for 2x the window size
+    redis.call('EXPIRE', key, w[5] * 2)
+  else
+    redis.call('HINCRBY', key, 'count', cost)
+  end
+
+  -- Report the tightest rule, and each rule on its own
+  rule_remaining[i] = math.max(w[6] - w[3] - taken, 0)
+  if remaining == nil or rule_remaining[i] < remaining then
+    remaining = rule_remaining[i]
+    decays_at = w[2]
+  end
+end
+
+-- Return: { allowed, decaysAt, remaining, granted, rejectedRule, acquiredAt, remaining of each rule... }
+return { 1, decays_at, remaining, cost, 0, tostring(now), unpack(rule_remaining) }
+` as const;
+
+export const LIMITER_REFUND_LUA = `${SERVER_CLOCK_LUA}
+-- Give permits back after a callback bailed out before doing the work.
+-- KEYS[i]  : limiter keys (several for a composite limiter)
+-- ARGV[1]  : strategy ('fixed', 'sliding' or 'token-bucket')
+-- ARGV[2]  : permits to give back
+-- ARGV[3]  : acquiredAt (fixed: only refund while the window they came from is current)
+-- ARGV[4]  : nowSeconds (float, or 'server' for the Redis clock)
+-- ARGV[5]  : decay
+-- ARGV[6]  : maxLocks
+
+local strategy    = ARGV[1]
+local permits     = tonumber(ARGV[2])
+local acquired_at = tonumber(ARGV[3])
+local now         = read_now(ARGV[4])
+local decay       = tonumber(ARGV[5])
+local max_locks   = tonumber(ARGV[6])
+
+local refunded = permits
+
+for _, key in ipairs(KEYS) do
+  local given = 0
+
+  if strategy == 'fixed' then
+    local window_start = tonumber(redis.call('HGET', key, 'start'))
+    local window_end   = tonumber(redis.call('HGET', key, 'end'))
+    local count        = tonumber(redis.call('HGET', key, 'count')) or 0
+    -- A window that has been reset since must not get extra room
+    if window_start and acquired_at and acquired_at >= window_start and acquired_at <= window_end then
+      given = math.min(permits, count)
+      if given > 0 then
+        redis.call('HINCRBY', key, 'count', -given)
+      end
+    end
+  elseif strategy == 'sliding' then
+    -- Acquires are interchangeable: drop the newest ones
+    given = math.min(permits, tonumber(redis.call('ZCARD', key)))
+    if given > 0 then
+      redis.call('ZREMRANGEBYRANK', key, -given, -1)
+    end
+  elseif strategy == 'token-bucket' then
+    local tat = tonumber(redis.call('GET', key))
+    if tat and tat > now then
+      local interval = decay / max_locks
+      -- Never move the bucket past full
+      given = math.min(permits, math.ceil((tat - now) / interval - 1e-6))
+      local new_tat = math.max(tat - interval * given, now)
+      redis.call('SET', key, tostring(new_tat), 'PX', math.ceil(decay * 1000))
+    end
+  end
+
+  if given < refunded then
+    refunded = given
+  end
+end
+
+-- Return: permits given back to every key
+return refunded
+` as const;
+
+export const CONCURRENCY_LIMITER_LUA = `${SERVER_CLOCK_LUA}
+-- Distributed semaphore: at most limit holders, each with a lease that expires if never released.
+-- KEYS[1]  : semaphore key (sorted set of holders scored by lease expiry)
+-- ARGV[1]  : nowSeconds (float, or 'server' for the Redis clock)
+-- ARGV[2]  : lease (seconds)
+-- ARGV[3]  : limit (max concurrent holders)
+-- ARGV[4]  : holder (unique id for this acquire)
+-- ARGV[5]  : peek (1 = only report whether a slot is free, take nothing)
+
+local key    = KEYS[1]
+local now    = read_now(ARGV[1])
+local lease  = tonumber(ARGV[2])
+local limit  = tonumber(ARGV[3])
+local holder = ARGV[4]
+local peek   = ARGV[5] == '1'
+
+-- Free the slots of holders that crashed or overran their lease
+redis.call('ZREMRANGEBYSCORE', key, '-inf', now)
+
+local held = tonumber(redis.call('ZCARD', key))
+
+if held >= limit then
+  -- The next slot frees up at the latest when the earliest lease expires
+  local earliest = redis.call('ZRANGE', key, 0, 0, 'WITHSCORES')
+  local decays_at = now + lease
+  if earliest[2] then
+    decays_at = tonumber(earliest[2])
+  end
+
+  -- Return: { allowed, decaysAt, remaining, granted }
+  return { 0, tostring(decays_at), 0, 0 }
+end
+
+local expires_at = now + lease
+
+if peek then
+  return { 1, tostring(expires_at), limit - held, 1 }
+end
+
+redis.call('ZADD', key, expires_at, holder)
+
+-- Keep the key as long as its longest lease
+local latest = redis.call('ZRANGE', key, -1, -1, 'WITHSCORES')
+redis.call('PEXPIRE', key, math.ceil((tonumber(latest[2]) - now) * 1000))
+
+-- Return: { allowed, decaysAt (our lease expiry), remaining, granted }
+return { 1, tostring(expires_at), limit - held - 1, 1 }
+` as const;
+
+export const FAIR_QUEUE_LUA = `${SERVER_CLOCK_LUA}
+-- FIFO queue of waiters: join (empty ticket) or renew a lease, and report whether it is our turn.
+-- KEYS[1]  : queue (sorted set of tickets scored by ticket number)
+-- KEYS[2]  : leases (sorted set of tickets scored by lease expiry)
+-- KEYS[3]  : ticket counter
+-- ARGV[1]  : nowSeconds (float, or 'server' for the Redis clock)
+-- ARGV[2]  : ticket (empty to join the queue)
+-- ARGV[3]  : lease (seconds before a silent waiter is dropped)
+
+local now    = read_now(ARGV[1])
+local ticket = ARGV[2]
+local lease  = tonumber(ARGV[3])
+
+-- Drop waiters that stopped renewing their lease (crashed, or gave up without leaving)
+local stale = redis.call('ZRANGEBYSCORE', KEYS[2], '-inf', now)
+for _, expired in ipairs(stale) do
+  redis.call('ZREM', KEYS[1], expired)
+end
+redis.call('ZREMRANGEBYSCORE', KEYS[2], '-inf', now)
+
+if ticket == '' then
+  ticket = string.format('%d', redis.call('INCR', KEYS[3]))
+end
+
+redis.call('ZADD', KEYS[1], tonumber(ticket), ticket)
+redis.call('ZADD', KEYS[2], now + lease, ticket)
+
+-- Expire the queue together with its counter once nobody waits anymore
+local ttl = math.ceil(lease * 2000)
+for _, key in ipairs(KEYS) do
+  redis.call('PEXPIRE', key, ttl)
+end
+
+local head = redis.call('ZRANGE', KEYS[1], 0, 0)[1]
+
+-- Return: { ticket, isHead }
+return { ticket, head == ticket and 1 or 0 }
+` as const;
+
+export const LIMITER_PAUSE_LUA = `
+-- KEYS[1]  : pause key
+-- ARGV[1]  : untilSeconds (epoch seconds the pause lasts until)
+-- ARGV[2]  : nowSeconds
+
+-- Return: the end of the pause, which only ever moves later
+local until_at = tonumber(ARGV[1])
+local current  = tonumber(redis.call('GET', KEYS[1]))
+
+if current and current >= until_at then
+  return tostring(current)
+end
+
+redis.call('SET', KEYS[1], tostring(until_at), 'PX', math.max(1, math.ceil((until_at - tonumber(ARGV[2])) * 1000)))
+return tostring(until_at)
+` as const;
+
 export interface DurationAcquireResult {
     allowed: boolean;
     decaysAt: number;
     remaining: number;
+    /** Permits actually taken; less than the requested cost only for partial grants. */
+    granted?: number;
+    /** Time the fixed window script ran at (epoch seconds), so a refund only goes to the same window. */
+    acquiredAt?: number;
+    /** Set when Redis was unreachable and the answer comes from the limiter's fallback policy. */
+    degraded?: boolean;
+    /** Set when rejected by a pause (see `pausedBy()`); `decaysAt` is then the end of the pause. */
+    paused?: boolean;
+}
+
+/**
+ * What a builder's `then()` callbacks receive: its own result type `R`, whose extra fields are missing
+ * when the answer did not come from its script (a pause, the fallback policy, or no attempt before the timeout).
+ */
+export type LimiterAnswer<R extends DurationAcquireResult = DurationAcquireResult> = DurationAcquireResult & Partial<R>;
+
+/** Every field `R` adds is optional in a LimiterAnswer, so any result is one. */
+const asAnswer = <R extends DurationAcquireResult>(info: DurationAcquireResult) => info as LimiterAnswer<R>;
+
+/**
+ * Where the limiter scripts read the current time: the calling worker (default) or the Redis server.
+ */
+export type LimiterClock = 'client' | 'server';
+
+export interface AcquireOptions {
+    /** Permits to take atomically (default 1). */
+    cost?: number;
+    /** Take whatever is left instead of nothing when fewer than `cost` permits remain. */
+    partial?: boolean;
+    /** Use the Redis server clock so workers with drifting clocks share the same windows. */
+    clock?: LimiterClock;
+    /**
+     * Only report whether the permits would be granted, without taking them.
+     * `remaining` is then what is left now rather than after taking.
+     */
+    peek?: boolean;
 }
 
+const acquireArgs = ({ cost = 1, partial = false, peek = false }: AcquireOptions): [number, string, string] => {
+    if (!Number.isInteger(cost) || cost < 1) {
+        throw new Error(`Invalid limiter cost: ${cost}`);
+    }
+    return [cost, partial ? '1' : '0', peek ? '1' : '0'];
+};
+
+/**
+ * The `now` script arguments, or the 'server' placeholder the scripts resolve with TIME.
+ */
+const clockArgs = (clock: LimiterClock = 'client'): [number | string, number | string] => {
+    if (clock === 'server') {
+        return ['server', 'server'];
+    }
+    const nowSeconds = Date.now() / 1000;
+    return [nowSeconds, Math.floor(nowSeconds)];
+};
+
+const toAcquireResult = (res: unknown[]): DurationAcquireResult => {
+    const allowed = !!res[0];
+    return {
+        allowed,
+        decaysAt: Number(res[1]),
+        remaining: Math.max(0, Number(res[2])),
+        granted: res[3] === undefined ? Number(allowed) : Number(res[3]),
+    };
+};
+
 export async function durationAcquire(
-    redis: Redis,
+    redis: RedisClient,
     name: string,
     maxLocks: number,
     decay: number,
+    options: AcquireOptions = {},
 ): Promise<DurationAcquireResult> {
-    const nowSeconds = Date.now() / 1000;
-    const nowIntSeconds = Math.floor(nowSeconds);
+    const [nowSeconds, nowIntSeconds] = clockArgs(options.clock);
+    const [cost, partial, peek] = acquireArgs(options);
 
     // ARGV mapping:
     // 1: nowSeconds
     // 2: nowIntSeconds
     // 3: decay
     // 4: maxLocks
-    const res = (await redis.eval(DURATION_LIMITER_LUA, 1, name, nowSeconds, nowIntSeconds, decay, maxLocks)) as [
-        number | string | boolean,
-        number | string,
-        number | string,
-    ];
+    // 5: cost
+    // 6: partial
+    // 7: peek
+    const res = (await redis.eval(
+        DURATION_LIMITER_LUA,
+        1,
+        name,
+        nowSeconds,
+        nowIntSeconds,
+        decay,
+        maxLocks,
+        cost,
+        partial,
+        peek,
+    )) as [number | string | boolean, number | string, number | string, number | string, string];
 
-    const allowed = !!res[0];
-    const decaysAt = Number(res[1]);
-    const remaining = Math.max(0, Number(res[2]));
+    return { ...toAcquireResult(res), acquiredAt: Number(res[4]) };
+}
+
+/**
+ * Sliding-window-log limiter: at most `maxLocks` acquires in any `decay` seconds,
+ * so bursts across a fixed window boundary are not possible.
+ */
+export async function slidingAcquire(
+    redis: RedisClient,
+    name: string,
+    maxLocks: number,
+    decay: number,
+    options: AcquireOptions = {},
+): Promise<DurationAcquireResult> {
+    const [nowSeconds] = clockArgs(options.clock);
+    const member = `${Date.now()}:${Math.random().toString(36).slice(2)}`;
+    const [cost, partial, peek] = acquireArgs(options);
+
+    const res = (await redis.eval(
+        SLIDING_WINDOW_LIMITER_LUA,
+        1,
+        name,
+        nowSeconds,
+        decay,
+        maxLocks,
+        member,
+        cost,
+        partial,
+        peek,
+    )) as [number, string, number, number];
 
-    return { allowed, decaysAt, remaining };
+    return toAcquireResult(res);
 }
 
-export class DurationLimiterBuilder {
-    private readonly redis: Redis;
-    private readonly name: string;
+/**
+ * Token bucket (GCRA) limiter: `maxLocks` tokens refilled evenly over `decay` seconds.
+ * When rejected, `decaysAt` is when enough tokens become available.
+ */
+export async function tokenBucketAcquire(
+    redis: RedisClient,
+    name: string,
+    maxLocks: number,
+    decay: number,
+    options: AcquireOptions = {},
+): Promise<DurationAcquireResult> {
+    const [nowSeconds] = clockArgs(options.clock);
+    const [cost, partial, peek] = acquireArgs(options);
+
+    const res = (await redis.eval(
+        TOKEN_BUCKET_LIMITER_LUA,
+        1,
+        name,
+        nowSeconds,
+        decay,
+        maxLocks,
+        cost,
+        partial,
+        peek,
+    )) as [number, string, number, number];
+
+    return toAcquireResult(res);
+}
+
+export interface LimitRule {
+    /** Limiter key. */
+    name: string;
+    maxLocks: number;
+    decay: number;
+    /** Reported in `rejectedBy`, defaults to the key. */
+    label?: string;
+}
+
+export interface CompositeAcquireResult extends DurationAcquireResult {
+    /** Label of the first rule without room, when rejected. */
+    rejectedBy?: string;
+    /** Permits left under each rule, keyed by label. */
+    ruleRemaining?: Record<string, number>;
+}
+
+/**
+ * Check several fixed-window rules (e.g. global, per project, per topic, per token) in one
+ * atomic script. Counts are only committed when every rule has room for `cost` permits.
+ */
+export async function compositeAcquire(
+    redis: RedisClient,
+    rules: readonly LimitRule[],
+    options: Pick<AcquireOptions, 'cost' | 'clock' | 'peek'> = {},
+): Promise<CompositeAcquireResult> {
+    if (rules.length === 0) {
+        throw new Error('Composite limiter needs at least one rule');
+    }
+    assertSameSlot(
+        redis,
+        rules.map((rule) => rule.name),
+    );
+
+    const [nowSeconds, nowIntSeconds] = clockArgs(options.clock);
+    const [cost, , peek] = acquireArgs(options);
+
+    const res = (await redis.eval(
+        COMPOSITE_LIMITER_LUA,
+        rules.length,
+        ...rules.map((rule) => rule.name),
+        nowSeconds,
+        nowIntSeconds,
+        cost,
+        ...rules.flatMap((rule) => [rule.decay, rule.maxLocks]),
+        peek,
+    )) as [number, number | string, number | string, number | string, number | string, string, ...number[]];
+
+    const rejectedRule = rules[Number(res[4]) - 1];
+
+    return {
+        ...toAcquireResult(res),
+        acquiredAt: Number(res[5]),
+        ...(rejectedRule && { rejectedBy: rejectedRule.label ?? rejectedRule.name }),
+        ruleRemaining: Object.fromEntries(rules.map((rule, i) => [rule.label ?? rule.name, Number(res[6 + i])])),
+    };
+}
+
+/**
+ * Give back the permits of a successful acquire on `names` (every rule key for a composite limiter).
+ * Fixed windows only get them back while the window they were taken from is current.
+ * Resolves with the number of permits given back.
+ */
+export async function limiterRefund(
+    redis: RedisClient,
+    names: readonly string[],
+    strategy: LimiterStrategy,
+    info: DurationAcquireResult,
+    limits: { maxLocks: number; decay: number; clock?: LimiterClock },
+): Promise<number> {
+    // Degraded answers took nothing from Redis
+    const permits = info.allowed && !info.degraded ? info.granted ?? 1 : 0;
+    if (permits < 1 || names.length === 0) {
+        return 0;
+    }
+
+    const [nowSeconds] = clockArgs(limits.clock);
+
+    const res = await redis.eval(
+        LIMITER_REFUND_LUA,
+        names.length,
+        ...names,
+        strategy,
+        permits,
+        info.acquiredAt ?? '',
+        nowSeconds,
+        limits.decay,
+        limits.maxLocks,
+    );
+
+    return Number(res);
+}
+
+export interface ConcurrencyAcquireResult extends DurationAcquireResult {
+    /** Id to release the slot with; empty when rejected. */
+    holder: string;
+}
+
+/**
+ * Take one of `limit` concurrent slots on `name` for at most `leaseSeconds`.
+ * When rejected, `decaysAt` is when the earliest lease expires; slots released earlier free up sooner.
+ */
+export async function concurrencyAcquire(
+    redis: RedisClient,
+    name: string,
+    limit: number,
+    leaseSeconds: number,
+    options: Pick<AcquireOptions, 'clock' | 'peek'> = {},
+): Promise<ConcurrencyAcquireResult> {
+    const [nowSeconds] = clockArgs(options.clock);
+    const holder = `${Date.now()}:${Math.random().toString(36).slice(2)}`;
+
+    const res = (await redis.eval(
+        CONCURRENCY_LIMITER_LUA,
+        1,
+        name,
+        nowSeconds,
+        leaseSeconds,
+        limit,
+        holder,
+        options.peek ? '1' : '0',
+    )) as [number, string, number, number];
+
+    const result = toAcquireResult(res);
+    return { ...result, holder: result.allowed && !options.peek ? holder : '' };
+}
+
+/**
+ * Give back a slot taken with `concurrencyAcquire`.
+ */
+export async function concurrencyRelease(redis: RedisClient, name: string, holder: string): Promise<void> {
+    await redis.zrem(name, holder);
+}
+
+export interface FairQueueTurn {
+    ticket: string;
+    /** True when no earlier waiter is left in the queue. */
+    head: boolean;
+}
+
+// Tagged so the queue keys share the queue name's cluster slot
+const fairQueueKeys = (queue: string): [string, string, string] => [
+    `${hashTag(queue)}:queue`,
+    `${hashTag(queue)}:queue:leases`,
+    `${hashTag(queue)}:queue:ticket`,
+];
+
+/**
+ * Join the FIFO queue `queue` (without a ticket) or renew our place in it, and tell whether it is our turn.
+ * Waiters that don't renew within `leaseSeconds` are dropped so a crashed worker can't block the queue.
+ */
+export async function fairQueueTurn(
+    redis: RedisClient,
+    queue: string,
+    ticket: string | undefined,
+    leaseSeconds: number,
+    clock: LimiterClock = 'client',
+): Promise<FairQueueTurn> {
+    const [nowSeconds] = clockArgs(clock);
+
+    const res = (await redis.eval(
+        FAIR_QUEUE_LUA,
+        3,
+        ...fairQueueKeys(queue),
+        nowSeconds,
+        ticket ?? '',
+        leaseSeconds,
+    )) as [string | number, number];
+
+    return { ticket: String(res[0]), head: !!res[1] };
+}
+
+/**
+ * Give up a place in the FIFO queue `queue`.
+ */
+export async function leaveFairQueue(redis: RedisClient, queue: string, ticket: string): Promise<void> {
+    const [queueKey, leasesKey] = fairQueueKeys(queue);
+    await redis.multi().zrem(queueKey, ticket).zrem(leasesKey, ticket).exec();
+}
+
+/**
+ * Pause every limiter built with `pausedBy(key)` until `untilSeconds` (epoch seconds), e.g. for an upstream
+ * Retry-After. A shorter pause never ends a longer one early. Resolves with the end of the pause.
+ */
+export async function pauseLimiter(
+    redis: RedisClient,
+    key: string,
+    untilSeconds: number,
+    now = Date.now(),
+): Promise<number> {
+    return Number(await redis.eval(LIMITER_PAUSE_LUA, 1, key, untilSeconds, now / 1000));
+}
+
+/**
+ * End of the pause held by `key` (epoch seconds), undefined when not paused at `now`.
+ */
+export async function limiterPausedUntil(
+    redis: RedisClient,
+    key: string,
+    now = Date.now(),
+): Promise<number | undefined> {
+    const value = await redis.get(key);
+    const until = value === null ? NaN : Number(value);
+    return until > now / 1000 ? until : undefined;
+}
+
+/**
+ * AbortSignal that fires `marginMs` before the Lambda runs out of time, to pass to `signal()`.
+ */
+export function remainingTimeSignal(context: { getRemainingTimeInMillis(): number }, marginMs = 1000): AbortSignal {
+    return AbortSignal.timeout(Math.max(0, context.getRemainingTimeInMillis() - marginMs));
+}
+
+/**
+ * Sleep for `ms`, waking up early when `signal` aborts.
+ */
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+    new Promise<void>((resolve) => {
+        if (signal?.aborted) {
+            resolve();
+            return;
+        }
+        const done = () => {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', done);
+            resolve();
+        };
+        const timer = setTimeout(done, ms);
+        signal?.addEventListener('abort', done, { once: true });
+    });
+
+/** Extra lease given to fair queue waiters on top of their timeout. */
+const FAIR_QUEUE_LEASE_GRACE_SECONDS = 5;
+
+export type LimiterStrategy = 'fixed' | 'sliding' | 'token-bucket';
+
+export const LIMITER_STRATEGIES: Record<
+    LimiterStrategy,
+    (
+        redis: RedisClient,
+        name: string,
+        maxLocks: number,
+        decay: number,
+        options?: AcquireOptions,
+    ) => Promise<DurationAcquireResult>
+> = {
+    fixed: durationAcquire,
+    sliding: slidingAcquire,
+    'token-bucket': tokenBucketAcquire,
+};
+
+/**
+ * Thrown by `then()` when no slot was granted within `block()` seconds and there is no failure callback.
+ */
+export class LimiterTimeoutException extends ThrottledError {
+    constructor(decaysAt?: number) {
+        super('LimiterTimeoutException', decaysAt);
+        this.name = 'LimiterTimeoutException';
+    }
+}
+
+/**
+ * Thrown by `then()` when its `signal()` aborted the wait and there is no failure callback.
+ */
+export class LimiterAbortedException extends ThrottledError {
+    constructor(decaysAt?: number) {
+        super('LimiterAbortedException', decaysAt);
+        this.name = 'LimiterAbortedException';
+    }
+}
+
+export class DurationLimiterBuilder<R extends DurationAcquireResult = DurationAcquireResult> {
+    protected readonly redis: RedisClient;
+    protected readonly name: string;
 
     public maxLocks = 1;
     public decay = 60;
     public timeout = 3;
     public sleepMs = 750;
+    public strategyName: LimiterStrategy = 'fixed';
+    public cost = 1;
+    public partialGrants = false;
+    public clock: LimiterClock = 'client';
+    public decayWait = false;
+    public jitterMs = 0;
+    public fairWait = false;
+    public fairQueue?: string;
+    public abortSignal?: AbortSignal;
+    public refundWhen?: (err: unknown) => boolean;
+    public degradedMode?: LimiterFallback;
+    public pauseKey?: string;
 
-    constructor(redis: Redis, name: string) {
+    constructor(redis: RedisClient, name: string) {
         this.redis = redis;
         this.name = name;
     }
@@ -137,6 +977,41 @@ export class DurationLimiterBuilder {
         return this;
     }
 
+    /**
+     * Take `permits` slots atomically instead of one, e.g. one per FCM send a message will trigger.
+     */
+    take(permits: number): this {
+        this.cost = permits;
+        return this;
+    }
+
+    /**
+     * Accept a partial grant when fewer than `take(n)` permits are left.
+     * The callback receives the limiter info, whose `granted` says how many were taken.
+     */
+    partial(enabled = true): this {
+        this.partialGrants = enabled;
+        return this;
+    }
+
+    /**
+     * Choose the limiting algorithm: fixed window (default), sliding window log or token bucket.
+     * Each strategy stores a different data type, so don't switch strategies on an existing key.
+     */
+    strategy(strategy: LimiterStrategy): this {
+        this.strategyName = strategy;
+        return this;
+    }
+
+    /**
+     * Read the time from the Redis server instead of this worker's clock, so concurrent
+     * workers with drifting clocks can't open overlapping windows or reset them early.
+     */
+    serverTime(enabled = true): this {
+        this.clock = enabled ? 'server' : 'client';
+        return this;
+    }
+
     /**
      * Set the sleep duration (in milliseconds) between retries
      * when waiting for a slot.
@@ -147,19 +1022,155 @@ export class DurationLimiterBuilder {
     }
 
     /**
-     * Run the limiter and execute the callback when allowed.
+     * When waiting, sleep until the rejection's `decaysAt` plus up to `jitterMs` of random delay
+     * instead of polling every `sleep()` ms, so waiters don't all retry in the same instant.
+     */
+    untilDecay(jitterMs = 250): this {
+        this.decayWait = true;
+        this.jitterMs = jitterMs;
+        return this;
+    }
+
+    /**
+     * Serve waiters in arrival order: each waiter takes a ticket in a Redis queue (named after the
+     * limiter key by default) and only tries to acquire once every earlier waiter has acquired or given up.
+     * Only applies when waiting (`block()` > 0); single attempts don't queue.
+     */
+    fair(queue?: string): this {
+        this.fairWait = true;
+        this.fairQueue = queue;
+        return this;
+    }
+
+    /**
+     * Stop waiting when `signal` aborts, e.g. `remainingTimeSignal(context)` before the Lambda times out.
+     * An aborted wait is handled like a timeout but throws LimiterAbortedException.
+     */
+    signal(signal: AbortSignal): this {
+        this.abortSignal = signal;
+        return this;
+    }
+
+    /**
+     * Give the permits back when the callback throws an error matching `when`, e.g. a validation
+     * error raised before anything was sent. The error is still rethrown.
+     */
+    refundOnError(when: (err: unknown) => boolean = () => true): this {
+        this.refundWhen = when;
+        return this;
+    }
+
+    /**
+     * Answer with `fallback`'s policy (fail-closed, fail-open or a local bucket) while Redis is unreachable,
+     * behind its circuit breaker. Without a fallback, connectivity errors are thrown.
+     * Fair queueing still needs Redis.
+     */
+    fallback(fallback: LimiterFallback): this {
+        this.degradedMode = fallback;
+        return this;
+    }
+
+    /**
+     * Reject without taking anything while `key` holds a pause set by `pauseLimiter()`. The rejection's
+     * `decaysAt` is the end of the pause, so `untilDecay()` waits it out. Read with this worker's clock.
+     */
+    pausedBy(key: string): this {
+        this.pauseKey = key;
+        return this;
+    }
+
+    /**
+     * Report whether `take(n)` permits would be granted right now, without taking them.
+     */
+    async check(): Promise<LimiterAnswer<R>> {
+        return asAnswer<R>(await this.acquireUnlessPaused(true));
+    }
+
+    /**
+     * Give back the permits of a successful acquire, e.g. when the callback bailed out before doing the work.
+     * Resolves with the number of permits given back.
+     */
+    refund(info: DurationAcquireResult): Promise<number> {
+        return limiterRefund(this.redis, [this.name], this.strategyName, info, this);
+    }
+
+    /**
+     * Redis key prefix of the fair queue.
+     */
+    protected queueName(): string {
+        return this.fairQueue ?? this.name;
+    }
+
+    /**
+     * How long to sleep after a rejection before trying again.
+     */
+    protected waitMs(info: DurationAcquireResult): number {
+        if (!this.decayWait) {
+            return this.sleepMs;
+        }
+        return Math.max(0, info.decaysAt * 1000 - Date.now()) + Math.random() * this.jitterMs;
+    }
+
+    /**
+     * Try to take the configured permits once, or only look when `peek` is set.
+     */
+    protected acquire(peek = false): Promise<DurationAcquireResult> {
+        const acquire = LIMITER_STRATEGIES[this.strategyName];
+        return acquire(this.redis, this.name, this.maxLocks, this.decay, {
+            cost: this.cost,
+            partial: this.partialGrants,
+            clock: this.clock,
+            peek,
+        });
+    }
+
+    /**
+     * `acquire()`, unless a `pausedBy()` pause is on.
+     */
+    protected async acquireUnlessPaused(peek = false): Promise<DurationAcquireResult> {
+        if (this.pauseKey !== undefined) {
+            const pausedUntil = await limiterPausedUntil(this.redis, this.pauseKey);
+            if (pausedUntil !== undefined) {
+                return { allowed: false, decaysAt: pausedUntil, remaining: 0, granted: 0, paused: true };
+            }
+        }
+        return this.acquire(peek);
+    }
+
+    /**
+     * Run the limiter and execute the callback when allowed, waiting up to `block()` seconds for a slot.
      * If not allowed:
      *  - if `failure` is provided, it will be called with the limiter info
      *  - otherwise it throws (when timeout > 0) or returns false (when timeout <= 0)
      */
-    async then<T = any>(
-        callback: () => Promise<T> | T,
-        failure?: (info: DurationAcquireResult) => Promise<T | boolean> | T | boolean,
-    ): Promise<T | boolean> {
+    then<T = any, F = T>(
+        callback: (info: LimiterAnswer<R>) => Promise<T> | T,
+        failure: (info: LimiterAnswer<R>) => Promise<F> | F,
+    ): Promise<T | F>;
+    then<T = any>(callback: (info: LimiterAnswer<R>) => Promise<T> | T): Promise<T | false>;
+    async then<T, F>(
+        callback: (info: LimiterAnswer<R>) => Promise<T> | T,
+        failure?: (info: LimiterAnswer<R>) => Promise<F> | F,
+    ): Promise<T | F | false> {
         const start = Date.now();
 
-        const tryOnce = async (): Promise<{ ok: boolean; info: DurationAcquireResult }> => {
-            const info = await durationAcquire(this.redis, this.name, this.maxLocks, this.decay);
+        const run = async (info: LimiterAnswer<R>): Promise<T> => {
+            try {
+                return await callback(info);
+            } catch (err) {
+                if (this.refundWhen?.(err)) {
+                    await this.refund(info);
+                }
+                throw err;
+            }
+        };
+
+        const tryOnce = async (): Promise<{ ok: boolean; info: LimiterAnswer<R> }> => {
+            const info = asAnswer<R>(
+                this.degradedMode
+                    ? await this.degradedMode.acquire(this.redis, () => this.acquireUnlessPaused(), this.cost)
+                    : await this.acquireUnlessPaused(),
+            );
 
             if (info.allowed) {
                 return { ok: true, info };
@@ -173,7 +1184,7 @@ export class DurationLimiterBuilder {
             const { ok, info } = await tryOnce();
 
             if (ok) {
-                return callback();
+                return run(info);
             }
 
             if (failure) {
@@ -183,27 +1194,68 @@ export class DurationLimiterBuilder {
             return false;
         }
 
-        // With timeout: retry until allowed or timeout exceeded
-        while (true) {
-            const { ok, info } = await tryOnce();
-
-            if (ok) {
-                return callback();
+        // Fair mode: wait for our turn in the queue before each attempt
+        const queue = this.fairWait ? this.queueName() : undefined;
+        let ticket: string | undefined;
+        const leave = async () => {
+            if (queue !== undefined && ticket !== undefined) {
+                const left = ticket;
+                ticket = undefined;
+                await leaveFairQueue(this.redis, queue, left);
             }
+        };
 
-            const elapsedSeconds = (Date.now() - start) / 1000;
+        // Reported to `failure` when we never got to try
+        let info = asAnswer<R>({ allowed: false, decaysAt: Date.now() / 1000, remaining: 0, granted: 0 });
 
-            if (elapsedSeconds >= this.timeout) {
-                if (failure) {
-                    return failure(info);
+        // With timeout: retry until allowed, timeout exceeded or aborted
+        try {
+            while (true) {
+                let head = true;
+
+                if (queue !== undefined) {
+                    const turn = await fairQueueTurn(
+                        this.redis,
+                        queue,
+                        ticket,
+                        this.timeout + FAIR_QUEUE_LEASE_GRACE_SECONDS,
+                        this.clock,
+                    );
+                    ticket = turn.ticket;
+                    head = turn.head;
                 }
 
-                const err = new Error('LimiterTimeoutException');
-                err.name = 'LimiterTimeoutException';
-                throw err;
-            }
+                if (head) {
+                    const attempt = await tryOnce();
+                    info = attempt.info;
+
+                    if (attempt.ok) {
+                        // Let the next waiter in while the callback runs
+                        await leave();
+                        return run(info);
+                    }
+                }
+
+                const remainingMs = this.timeout * 1000 - (Date.now() - start);
+                const aborted = !!this.abortSignal?.aborted;
+
+                if (remainingMs <= 0 || aborted) {
+                    await leave();
 
-            await new Promise<void>((resolve) => setTimeout(resolve, this.sleepMs));
+                    if (failure) {
+                        return failure(info);
+                    }
+
+                    throw aborted
+                        ? new LimiterAbortedException(info.decaysAt)
+                        : new LimiterTimeoutException(info.decaysAt);
+                }
+
+                // Only the head of the queue waits for the window; the others keep their place
+                await sleep(Math.min(head ? this.waitMs(info) : this.sleepMs, remainingMs), this.abortSignal);
+            }
+        } finally {
+            await leave();
         }
     }
 }
@@ -211,6 +1263,210 @@ export class DurationLimiterBuilder {
 /**
  * Helper to create a DurationLimiterBuilder with a given Redis client and key name.
  */
-export function throttle(redis: Redis, name: string): DurationLimiterBuilder {
+export function throttle(redis: RedisClient, name: string): DurationLimiterBuilder {
     return new DurationLimiterBuilder(redis, name);
 }
+
+/**
+ * Builder for a composite limiter: every `rule()` must have room for the request to pass.
+ * `allow()`, `every()` and `strategy()` don't apply; the failure callback receives a
+ * CompositeAcquireResult whose `rejectedBy` names the rule that rejected.
+ */
+export class CompositeLimiterBuilder extends DurationLimiterBuilder<CompositeAcquireResult> {
+    public rules: LimitRule[] = [];
+
+    constructor(redis: RedisClient) {
+        super(redis, 'composite');
+    }
+
+    /**
+     * Add a fixed-window rule: at most `maxLocks` operations every `decay` seconds on `name`.
+     */
+    rule(name: string, maxLocks: number, decay: number, label?: string): this {
+        this.rules.push({ name, maxLocks, decay, label });
+        return this;
+    }
+
+    /**
+     * Queue on the first rule's key unless a queue was named.
+     */
+    protected queueName(): string {
+        return this.fairQueue ?? this.rules[0]?.name ?? this.name;
+    }
+
+    protected acquire(peek = false): Promise<CompositeAcquireResult> {
+        return compositeAcquire(this.redis, this.rules, { cost: this.cost, clock: this.clock, peek });
+    }
+
+    refund(info: DurationAcquireResult): Promise<number> {
+        return limiterRefund(
+            this.redis,
+            this.rules.map((rule) => rule.name),
+            'fixed',
+            info,
+            this,
+        );
+    }
+}
+
+/**
+ * Helper to create a CompositeLimiterBuilder checking several rules at once.
+ */
+export function throttleAll(redis: RedisClient): CompositeLimiterBuilder {
+    return new CompositeLimiterBuilder(redis);
+}
+
+/**
+ * Builder for a distributed semaphore: at most `limit()` callbacks run at once across every worker.
+ * The slot is released when the callback resolves or throws; `lease()` bounds how long a crashed
+ * execution can hold it, so pick a lease longer than the callback takes.
+ * Waiting (`block()`, `untilDecay()`, `fair()`, `signal()`) and the failure callback work as for
+ * DurationLimiterBuilder; `every()`, `take()` and `strategy()` don't apply.
+ */
+export class ConcurrencyLimiterBuilder extends DurationLimiterBuilder<ConcurrencyAcquireResult> {
+    /**
+     * Set the maximum number of callbacks running at once.
+     */
+    limit(maxHolders: number): this {
+        return this.allow(maxHolders);
+    }
+
+    /**
+     * Set how long (in seconds) a slot is held at most if it's never released.
+     */
+    lease(seconds: number): this {
+        return this.every(seconds);
+    }
+
+    protected acquire(peek = false): Promise<ConcurrencyAcquireResult> {
+        return concurrencyAcquire(this.redis, this.name, this.maxLocks, this.decay, { clock: this.clock, peek });
+    }
+
+    /**
+     * Release the slot early; `then()` releases it anyway once the callback settles.
+     */
+    async refund(info: LimiterAnswer<ConcurrencyAcquireResult>): Promise<number> {
+        const { holder } = info;
+        if (!holder) {
+            return 0;
+        }
+        await concurrencyRelease(this.redis, this.name, holder);
+        return 1;
+    }
+
+    then<T = any, F = T>(
+        callback: (info: LimiterAnswer<ConcurrencyAcquireResult>) => Promise<T> | T,
+        failure: (info: LimiterAnswer<ConcurrencyAcquireResult>) => Promise<F> | F,
+    ): Promise<T | F>;
+    then<T = any>(callback: (info: LimiterAnswer<ConcurrencyAcquireResult>) => Promise<T> | T): Promise<T | false>;
+    async then<T, F>(
+        callback: (info: LimiterAnswer<ConcurrencyAcquireResult>) => Promise<T> | T,
+        failure?: (info: LimiterAnswer<ConcurrencyAcquireResult>) => Promise<F> | F,
+    ): Promise<T | F | false> {
+        const guarded = async (info: LimiterAnswer<ConcurrencyAcquireResult>) => {
+            try {
+                return await callback(info);
+            } finally {
+                await this.refund(info);
+            }
+        };
+        return failure ? super.then(guarded, failure) : super.then(guarded);
+    }
+}
+
+/**
+ * Helper to create a ConcurrencyLimiterBuilder with a given Redis client and key name.
+ */
+export function concurrency(redis: RedisClient, name: string): ConcurrencyLimiterBuilder {
+    return new ConcurrencyLimiterBuilder(redis, name);
+}
+
+export interface LimiterState {
+    name: string;
+    /** Redis type: 'hash' for fixed windows, 'zset' for sliding windows and semaphores, 'string' for token buckets. */
+    type: string;
+    /** Permits taken in the current fixed window, or entries in the sorted set. */
+    count: number;
+    /** Fixed window bounds in epoch seconds. */
+    start?: number;
+    end?: number;
+    /** Fixed window limit, recorded when the window starts. */
+    max?: number;
+    remaining?: number;
+    /** Token bucket: epoch seconds at which the bucket is full again. */
+    fullAt?: number;
+    /** Seconds until the key expires, -1 without expiry. */
+    ttl: number;
+}
+
+export interface LimiterAdmin {
+    /** Read a limiter's state without changing it; null when the key doesn't exist. */
+    inspect(name: string): Promise<LimiterState | null>;
+    /** Delete a limiter and its fair queue so the next acquire starts fresh. Resolves true if anything was deleted. */
+    reset(name: string): Promise<boolean>;
+    /** Names of the keys starting with `prefix`, sorted. */
+    list(prefix?: string): Promise<string[]>;
+}
+
+/**
+ * Read-only inspection plus reset for on-call, e.g. `limiterAdmin(redis).inspect('{fcm_throttle_key}')`.
+ */
+export function limiterAdmin(redis: RedisClient): LimiterAdmin {
+    return {
+        async inspect(name) {
+            const [type, ttl] = await Promise.all([redis.type(name), redis.ttl(name)]);
+
+            switch (type) {
+                case 'none':
+                    return null;
+                case 'hash': {
+                    const window = await redis.hgetall(name);
+                    const count = Number(window.count ?? 0);
+                    const end = window.end === undefined ? undefined : Number(window.end);
+                    const max = window.max === undefined ? undefined : Number(window.max);
+                    // An expired window is only kept for its TTL; the next acquire starts a new one
+                    const current = end !== undefined && Date.now() / 1000 <= end;
+                    return {
+                        name,
+                        type,
+                        count,
+                        start: window.start === undefined ? undefined : Number(window.start),
+                        end,
+                        max,
+                        remaining: max === undefined ? undefined : Math.max(0, max - (current ? count : 0)),
+                        ttl,
+                    };
+                }
+                case 'zset':
+                    return { name, type, count: await redis.zcard(name), ttl };
+                case 'string':
+                    return { name, type, count: 0, fullAt: Number(await redis.get(name)), ttl };
+                default:
+                    return { name, type, count: 0, ttl };
+            }
+        },
+
+        async reset(name) {
+            // A cluster rejects a DEL across slots, and only the fair queue keys are sure to share one
+            const limiter = await redis.del(name);
+            const queue = await redis.del(...fairQueueKeys(name));
+            return limiter + queue > 0;
+        },
+
+        async list(prefix = '') {
+            const pattern = `${prefix.replace(/[*?[\]\\]/g, '\\$&')}*`;
+            const names = new Set<string>();
+            // A cluster's keys are spread over its masters, each with its own cursor
+            const nodes = redis.isCluster ? (redis as Cluster).nodes('master') : [redis];
+            for (const node of nodes) {
+                let cursor = '0';
+                do {
+                    const [next, keys] = await node.scan(cursor, 'MATCH', pattern, 'COUNT', 100);
+                    keys.forEach((key) => names.add(key));
+                    cursor = next;
+                } while (cursor !== '0');
+            }
+            return [...names].sort();
+        },
+    };
+}